@@ -0,0 +1,21 @@
+#!/usr/bin/env node
+import { resolve } from 'path'
+import { loadNuxt, logger } from '@nuxt/kit'
+
+const [command, rootDir = '.'] = process.argv.slice(2)
+
+if (command !== 'refresh-schemas') {
+  logger.info('Usage: nuxt-graphql-client refresh-schemas [rootDir]')
+  process.exit(command ? 1 : 0)
+}
+
+// the schema of each client is loaded as the module is set up, failing when a GraphQL API is unreachable
+process.env.GQL_SCHEMA_REFRESH = 'true'
+
+try {
+  const nuxt = await loadNuxt({ rootDir: resolve(rootDir), overrides: { _prepare: true } })
+  await nuxt.close()
+} catch (e) {
+  logger.error(`[nuxt-graphql-client] Unable to refresh the schema snapshots. ${e.message}`)
+  process.exit(1)
+}
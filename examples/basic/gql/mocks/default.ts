@@ -0,0 +1,13 @@
+import type { GqlMockOptions } from 'nuxt-graphql-client'
+
+export default <GqlMockOptions>{
+  mocks: {
+    Launch: () => ({ mission_name: 'Starlink', launch_year: '2020', launch_success: true }),
+    LaunchLinks: () => ({ article_link: 'https://www.spacex.com/launches', flickr_images: [] })
+  },
+  resolvers: {
+    Query: {
+      launches: (_: unknown, { limit = 10 }: { limit?: number }) => Array.from({ length: limit }, (_, i) => ({ id: String(i + 1) }))
+    }
+  }
+}
@@ -1,9 +1,14 @@
 export default defineNuxtConfig({
   modules: ['@nuxt/ui', 'nuxt-graphql-client'],
 
-  runtimeConfig: {
-    public: {
-      GQL_HOST: 'https://api.spacex.land/graphql'
+  'graphql-client': {
+    clients: {
+      default: {
+        host: 'https://api.spacex.land/graphql',
+
+        // operations are executed against the schema when mocked (`GQL_MOCK=true`)
+        schema: './schema.graphql'
+      }
     }
   }
 })
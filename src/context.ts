@@ -1,20 +1,35 @@
-import { promises as fsp } from 'fs'
-import { parse } from 'graphql'
+import { createHash } from 'crypto'
+import { Kind, print, visit } from 'graphql'
+import type { FragmentDefinitionNode, OperationDefinitionNode } from 'graphql'
 import { upperFirst } from 'scule'
 import type { Import } from 'unimport'
 import { genExport } from 'knitwork'
+import { addTypename } from './runtime/cache'
+import { allowedDefinitions } from './runtime/server/utils'
+import { parseDocument } from './utils'
+import type { GqlSchemaChange } from './schema'
+import type { GqlClient, GqlScalarMap, GqlPersistedQuery } from './types'
 
 export interface GqlContext {
   codegen?: boolean
   template?: Record<string, string>
+  outputs?: Record<string, string>
   fns?: string[]
   clients?: string[]
   fnImports?: Import[]
+  ambiguousFns?: Record<string, { operation: string, fns: string[] }>
   generateImports?: () => string
   generateDeclarations?: () => string
+  generateServerImports?: (runtime: string) => string
   clientOps?: Record<string, string[]>
   clientDocs?: Record<string, string[]>
   clientTypes?: Record<string, string[]>
+  typesPath?: string
+  persistedQueries?: Record<string, { strict?: boolean, queries: Record<string, GqlPersistedQuery> }>
+  proxyAllowlist?: Record<string, { definitions: string[], hashes: string[] }>
+  documentSources?: Record<string, string>
+  schemaChanges?: Record<string, GqlSchemaChange[]>
+  scalars?: Record<string, { file: string, operations: GqlScalarMap }>
 }
 
 export async function prepareContext (ctx: GqlContext, prefix: string) {
@@ -22,43 +37,85 @@ export async function prepareContext (ctx: GqlContext, prefix: string) {
 
   if (ctx.template) { prepareTemplate(ctx) }
 
-  ctx.fns = Object.values(ctx.template || {}).reduce((acc, template) => {
-    const fns = template.match(ctx?.codegen ? /\w+\s*(?=\(variables)/g : /\w+(?=:\s\(variables)/g)?.sort() || []
+  const clientFns = Object.entries(ctx.template || {}).reduce((acc, [client, template]) => ({
+    ...acc,
+    [client]: template.match(ctx?.codegen ? /\w+\s*(?=\(variables)/g : /\w+(?=:\s\(variables)/g)?.sort() || []
+  }), {} as Record<string, string[]>)
 
-    return [...acc, ...fns]
-  }, [] as string[])
+  const allFns = Object.values(clientFns).flat()
 
-  const fnName = (fn: string) => prefix + upperFirst(fn)
+  // operations declared by multiple clients are only available as namespaced functions
+  const ambiguous = [...new Set(allFns.filter((fn, i) => allFns.indexOf(fn) !== i))]
 
-  const fnExp = (fn: string, typed = false) => {
-    const name = fnName(fn)
+  ctx.fns = [...new Set(allFns)].filter(fn => !ambiguous.includes(fn))
 
-    if (!typed) { return `export const ${name} = (...params) => useGql()('${fn}', ...params)` }
+  // namespaced functions (e.g. `GqlRmortyGetUser`) are provided in multiple client mode
+  const clientScopedFns = Object.keys(clientFns).length < 2
+    ? []
+    : Object.entries(clientFns).flatMap(([client, fns]) => fns.map(fn => ({ client, fn })))
 
-    return `  export const ${name}: (...params: Parameters<GqlSdkFuncs['${fn}']>) => ReturnType<GqlSdkFuncs['${fn}']>`
+  const fnName = (fn: string, client?: string) => prefix + (client ? upperFirst(client) : '') + upperFirst(fn)
+
+  ctx.ambiguousFns = ambiguous.reduce((acc, fn) => ({
+    ...acc,
+    [fnName(fn)]: { operation: fn, fns: Object.keys(clientFns).filter(c => clientFns[c].includes(fn)).map(c => fnName(fn, c)) }
+  }), {})
+
+  const fnExp = (fn: string, typed = false, client?: string) => {
+    const name = fnName(fn, client)
+
+    if (!typed) { return `export const ${name} = (...params) => useGql(${client ? `'${client}'` : ''})('${fn}', ...params)` }
+
+    if (client) { return `  export const ${name}: (...params: GqlClientFunctionParams<'${client}', '${fn}'>) => ReturnType<GqlClientSdkFuncs['${client}']['${fn}']>` }
+
+    return `  export const ${name}: (...params: GqlFunctionParams<'${fn}'>) => ReturnType<GqlSdkFuncs['${fn}']>`
   }
 
+  // types declared by multiple clients are only exported by the client's module, e.g. `#gql/rmorty`
+  const allTypes = Object.values(ctx.clientTypes || {}).flat()
+  const ambiguousTypes = allTypes.filter((t, i) => allTypes.indexOf(t) !== i)
+
+  const ops = [...new Set(Object.values(ctx.clientOps || {}).flat())].filter(op => !ambiguous.includes(op))
+
   ctx.clients = ctx.clients?.filter(c => ctx.clientDocs?.[c])
 
   ctx.generateImports = () => [
     'import { useGql } from \'#imports\'',
-    ...ctx.clients!.map(client => `import { getSdk as ${client}GqlSdk } from '#gql/${client}'`),
+    ...ctx.clients!.map(client => `import { getSdk as ${client}GqlSdk } from '#gql/${client}${ctx.persistedQueries?.[client] ? '.persisted' : ''}'`),
     'export const GqlSdks = {',
     ...ctx.clients!.map(client => `  ${client}: ${client}GqlSdk,`),
     '}',
     `export const GqClientOps = ${JSON.stringify(ctx.clientOps)}`,
-    ...ctx.fns!.map(f => fnExp(f))
+    persistedQueriesExport(ctx),
+    ...ctx.fns!.map(f => fnExp(f)),
+    ...clientScopedFns.map(({ client, fn }) => fnExp(fn, false, client))
+  ].join('\n')
+
+  // functions available within Nitro routes, executed with the headers and token of the client
+  ctx.generateServerImports = runtime => [
+    `import { useGqlServer } from '${runtime}'`,
+    ...ctx.fns!.map(fn => `export const ${fnName(fn)} = (...params) => useGqlServer()('${fn}', ...params)`),
+    ...clientScopedFns.map(({ client, fn }) => `export const ${fnName(fn, client)} = (...params) => useGqlServer(undefined, { client: '${client}' })('${fn}', ...params)`)
   ].join('\n')
 
+  // the Gql functions of Nitro routes share the declarations of `#gql`
+  const serverDeclarations = () => !ctx.codegen || !ctx.fnImports?.length
+    ? []
+    : ['declare module \'#gql-server\' {', `  export { ${ctx.fnImports.map(i => i.name).join(', ')} } from '#gql'`, '}']
+
   ctx.generateDeclarations = () => [
     ...(!ctx.codegen
       ? []
-      : ctx.clients!.map(client => `import { getSdk as ${client}GqlSdk } from '#gql/${client}'`)),
-    ...Object.entries(ctx.clientTypes || {}).map(([k, v]) => genExport(`#gql/${k}`, v)),
+      : [
+          `import type { GqlRequestOptions } from '${ctx.typesPath}'`,
+          ...ctx.clients!.map(client => `import { getSdk as ${client}GqlSdk } from '#gql/${client}'`)
+        ]),
+    ...Object.entries(ctx.clientTypes || {}).map(([k, v]) => genExport(`#gql/${k}`, v.filter(t => !ambiguousTypes.includes(t)))),
     'declare module \'#gql\' {',
       `  type GqlClients = '${ctx.clients?.join("' | '") || 'default'}'`,
-      `  type GqlOps = '${Object.values(ctx.clientOps!).flat().join("' | '")}'`,
+      `  type GqlOps = ${ops.length ? `'${ops.join("' | '")}'` : 'never'}`,
       `  const GqClientOps = ${JSON.stringify(ctx.clientOps)}`,
+      `  const GqlPersistedQueries: Record<string, Record<string, import('${ctx.typesPath}').GqlPersistedQuery>>`,
       ...(!ctx.codegen
         ? []
         : [
@@ -66,21 +123,29 @@ export async function prepareContext (ctx: GqlContext, prefix: string) {
             ...ctx.clients!.map(client => `    ${client}: ${client}GqlSdk,`),
             '  }',
             ...ctx.fns!.map(f => fnExp(f, true)),
-            `  type GqlSdkFuncs = ${ctx.clients?.map(c => `ReturnType<typeof ${c}GqlSdk>`).join(' & ') || 'any'}`
+            ...clientScopedFns.map(({ client, fn }) => fnExp(fn, true, client)),
+            '  type GqlFunctionParams<T extends keyof GqlSdkFuncs, P = Parameters<GqlSdkFuncs[T]>[\'0\']> = undefined extends P ? [variables?: P, options?: GqlRequestOptions] : [variables: P, options?: GqlRequestOptions]',
+            '  type GqlClientFunctionParams<C extends keyof GqlClientSdkFuncs, T extends keyof GqlClientSdkFuncs[C], P = GqlClientSdkFuncs[C][T] extends (variables: infer V, ...args: any[]) => any ? V : never> = undefined extends P ? [variables?: P, options?: GqlRequestOptions] : [variables: P, options?: GqlRequestOptions]',
+            `  type GqlClientSdkFuncs = { ${ctx.clients?.map(c => `${c}: ReturnType<typeof ${c}GqlSdk>`).join(', ')} }`,
+            `  type GqlSdkFuncs = ${!ctx.clients?.length ? 'any' : ambiguous.length ? `Omit<${ctx.clients.map(c => `GqlClientSdkFuncs['${c}']`).join(' & ')}, '${ambiguous.join("' | '")}'>` : ctx.clients.map(c => `GqlClientSdkFuncs['${c}']`).join(' & ')}`
           ]),
-      '}'
+      '}',
+      ...serverDeclarations()
   ].join('\n')
 
-  ctx.fnImports = ctx.fns.map((fn): Import => ({ from: '#gql', name: fnName(fn) }))
+  ctx.fnImports = [
+    ...ctx.fns.map((fn): Import => ({ from: '#gql', name: fnName(fn) })),
+    ...clientScopedFns.map(({ client, fn }): Import => ({ from: '#gql', name: fnName(fn, client) }))
+  ]
 }
 
 async function prepareOperations (ctx: GqlContext) {
-  const scanDoc = async (doc: string, client: string) => {
-    const { definitions } = parse(await fsp.readFile(doc, 'utf8'))
+  const scanDoc = (doc: string, client: string) => {
+    const { definitions } = parseDocument(doc)
 
     // @ts-ignore
     const operations: string[] = definitions.map(({ name }) => {
-      if (!name?.value) { throw new Error(`Operation name missing in: ${doc}`) }
+      if (!name?.value) { throw new Error(`Operation name missing in: ${ctx.documentSources?.[doc] || doc}`) }
 
       return name.value
     })
@@ -93,8 +158,78 @@ async function prepareOperations (ctx: GqlContext) {
   }
 
   for await (const [client, docs] of Object.entries(ctx?.clientDocs || {})) {
+    // operations of removed documents are dropped
+    if (ctx.clientOps?.[client]) { ctx.clientOps[client] = [] }
+
     for await (const doc of docs) {
-      await scanDoc(doc, client)
+      scanDoc(doc, client)
+    }
+  }
+}
+
+export async function preparePersistedQueries (ctx: GqlContext, clients: Record<string, GqlClient<object>>) {
+  ctx.persistedQueries = {}
+
+  for await (const [client, docs] of Object.entries(ctx?.clientDocs || {})) {
+    const conf = clients?.[client]
+
+    // mocked operations are executed in-process, hence their documents are required
+    if (!conf?.persistedQueries || conf.mock || !docs.length) { continue }
+
+    const definitions = docs.flatMap(doc => parseDocument(doc).definitions)
+
+    const fragments = definitions.filter((d): d is FragmentDefinitionNode => d.kind === Kind.FRAGMENT_DEFINITION)
+      .reduce((acc, d) => ({ ...acc, [d.name.value]: d }), {} as Record<string, FragmentDefinitionNode>)
+
+    // collect the fragments used by a definition, including nested fragments
+    const spreads = (node: OperationDefinitionNode | FragmentDefinitionNode, found = new Set<string>()) => {
+      visit(node, {
+        FragmentSpread: ({ name }) => {
+          if (found.has(name.value) || !fragments[name.value]) { return }
+
+          found.add(name.value)
+          spreads(fragments[name.value], found)
+        }
+      })
+
+      return found
+    }
+
+    const queries: Record<string, GqlPersistedQuery> = {}
+
+    for (const op of definitions) {
+      if (op.kind !== Kind.OPERATION_DEFINITION || !op.name?.value) { continue }
+
+      let document = print({ kind: Kind.DOCUMENT, definitions: [op, ...[...spreads(op)].map(f => fragments[f])] })
+      if (conf.cache) { document = addTypename(document) }
+
+      queries[createHash('sha256').update(document).digest('hex')] = { operation: op.name.value, type: op.operation, document }
+    }
+
+    ctx.persistedQueries[client] = {
+      strict: typeof conf.persistedQueries === 'object' && conf.persistedQueries.strict,
+      queries
+    }
+  }
+}
+
+export async function prepareProxyAllowlist (ctx: GqlContext, clients: Record<string, GqlClient<object>>) {
+  ctx.proxyAllowlist = {}
+
+  for await (const [client, conf] of Object.entries(clients || {})) {
+    const allowlist = typeof conf?.proxy === 'object' && conf.proxy.allowlist
+
+    if (!allowlist) { continue }
+
+    const operations = Array.isArray(allowlist) ? allowlist : undefined
+
+    const definitions = (ctx.clientDocs?.[client] || []).flatMap(doc => parseDocument(doc).definitions)
+
+    ctx.proxyAllowlist[client] = {
+      definitions: allowedDefinitions(definitions, operations),
+      hashes: Object.entries(ctx.persistedQueries?.[client]?.queries || {})
+        .filter(([_, { operation }]) => !operations || operations.includes(operation))
+        .map(([hash]) => hash)
     }
   }
 }
@@ -115,11 +250,17 @@ function prepareTemplate (ctx: GqlContext) {
   }, {} as Record<string, string[]>)
 }
 
-export const mockTemplate = (operations: Record<string, string>) => {
+// the documents of persisted queries are stripped in `strict` mode
+export const persistedQueriesExport = (ctx: GqlContext) => `export const GqlPersistedQueries = ${JSON.stringify(Object.entries(ctx.persistedQueries || {}).reduce((acc, [client, { strict, queries }]) => ({
+  ...acc,
+  [client]: !strict ? queries : Object.entries(queries).reduce((acc, [hash, { document, ...query }]) => ({ ...acc, [hash]: query }), {})
+}), {}))}`
+
+export const mockTemplate = (operations: Record<string, { document: string, type?: string }>) => {
   const GqlFunctions: string[] = []
 
-  for (const [k, v] of Object.entries(operations)) {
-    GqlFunctions.push(`    ${k}: (variables = undefined, requestHeaders = undefined) => withWrapper((wrappedRequestHeaders) => client.request(\`${v}\`, variables, {...requestHeaders, ...wrappedRequestHeaders}), '${k}', 'query')`)
+  for (const [k, { document, type }] of Object.entries(operations)) {
+    GqlFunctions.push(`    ${k}: (variables = undefined, requestHeaders = undefined) => withWrapper((wrappedRequestHeaders) => client.request(\`${document}\`, variables, {...requestHeaders, ...wrappedRequestHeaders}), '${k}', '${type || 'query'}')`)
   }
 
   return [
@@ -130,3 +271,14 @@ export const mockTemplate = (operations: Record<string, string>) => {
     '}'
   ].join('\n')
 }
+
+export const scalarsTemplate = (scalars: Record<string, { file: string, operations: GqlScalarMap }>) => {
+  const clients = Object.entries(scalars)
+
+  return [
+    ...clients.map(([client, { file }]) => `import ${client}Scalars from '${file}'`),
+    'export const GqlScalars = {',
+    ...clients.map(([client, { operations }]) => `  ${client}: { scalars: ${client}Scalars, operations: ${JSON.stringify(operations)} },`),
+    '}'
+  ].join('\n')
+}
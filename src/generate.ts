@@ -1,51 +1,59 @@
+import { defu } from 'defu'
 import { generate } from '@graphql-codegen/cli'
 
 import type { Resolver } from '@nuxt/kit'
 import type { CodegenConfig } from '@graphql-codegen/cli'
 
-import type { GqlClient, GqlCodegen } from './types'
+import type { GqlClient, GqlCodegen, GqlCodegenPlugin } from './types'
 
 interface GenerateOptions {
   silent?: boolean
-  plugins?: string[]
+  plugins?: GqlCodegenPlugin[]
   resolver?: Resolver
   documents?: string[]
   onlyOperationTypes?: boolean
   clients?: Record<string, GqlClient<GqlClient>>
   clientDocs?: Record<string, string[]>
-}
 
-function prepareConfig (options: GenerateOptions & GqlCodegen): CodegenConfig {
-  const prepareSchema = (v: GqlClient<object>) => {
-    if (v.schema) {
-      v.schema = options.resolver?.resolve(v.schema)
-      return [v.schema]
-    }
+  /**
+   * SDL of the schemas which were already introspected, keyed by client.
+   */
+  schemas?: Record<string, string>
+}
 
-    const host = v?.introspectionHost || v.host
+export function prepareSchema (v: GqlClient<object>, resolver?: Resolver) {
+  if (v.schema) {
+    v.schema = resolver?.resolve(v.schema)
+    return [v.schema]
+  }
 
-    if (!v?.token?.value && !v?.headers && !v?.codegenHeaders) { return [host] }
+  const host = v?.introspectionHost || v.host
 
-    const token = v?.token?.value && !v?.token?.type ? v?.token?.value : `${v?.token?.type} ${v?.token?.value}`.trim()
+  if (!v?.token?.value && !v?.headers && !v?.codegenHeaders) { return [host] }
 
-    const serverHeaders = typeof v?.headers?.serverOnly === 'object' && v?.headers?.serverOnly
-    if (v?.headers?.serverOnly) { delete v.headers.serverOnly }
+  const token = v?.token?.value && !v?.token?.type ? v?.token?.value : `${v?.token?.type} ${v?.token?.value}`.trim()
 
-    const headers = {
-      ...(v?.headers && { ...(v.headers as Record<string, string>), ...serverHeaders }),
-      ...(token && { [v.token!.name!]: token }),
-      ...v?.codegenHeaders
-    }
+  const { serverOnly, ...clientHeaders } = (v?.headers || {}) as Record<string, any>
 
-    return [{ [host]: { headers } }]
+  const headers = {
+    ...(v?.headers && { ...clientHeaders, ...(typeof serverOnly === 'object' && serverOnly) }),
+    ...(token && { [v.token!.name!]: token }),
+    ...v?.codegenHeaders
   }
 
+  return [{ [host]: { headers } }]
+}
+
+function prepareConfig (options: GenerateOptions & GqlCodegen): CodegenConfig {
   const codegenConfig = {
     skipTypename: options?.skipTypename,
     useTypeImports: options?.useTypeImports,
     dedupeFragments: options?.dedupeFragments,
     gqlImport: 'graphql-request#gql',
     onlyOperationTypes: options.onlyOperationTypes,
+    scalars: {
+      Upload: 'File | Blob'
+    },
     namingConvention: {
       enumValues: 'change-case-all#upperCaseFirst'
     }
@@ -54,14 +62,26 @@ function prepareConfig (options: GenerateOptions & GqlCodegen): CodegenConfig {
   const generates: CodegenConfig['generates'] = Object.entries(options.clients || {}).reduce((acc, [k, v]) => {
     if (!options?.clientDocs?.[k]?.length) { return acc }
 
+    // the config of the client takes precedence over the top-level config
+    const config = defu(v.scalars && { scalars: v.scalars }, v.codegen?.config, options.config, codegenConfig)
+    const schema = options.schemas?.[k] ? [options.schemas[k]] : prepareSchema(v, options.resolver)
+    const documents = options?.clientDocs?.[k] || []
+
+    // additional outputs are generated as `<client>/<output>.ts`
+    const outputs = Object.entries({ ...options.outputs, ...v.codegen?.outputs }).reduce((acc, [name, output]) => ({
+      ...acc,
+      [`${k}/${name}.ts`]: { config: defu(output.config, config), schema, plugins: output.plugins, documents }
+    }), {})
+
     return {
       ...acc,
       [`${k}.ts`]: {
-        config: codegenConfig,
-        schema: prepareSchema(v),
-        plugins: options.plugins,
-        documents: options?.clientDocs?.[k] || []
-      }
+        config,
+        schema,
+        plugins: [...options.plugins || [], ...v.codegen?.plugins || []],
+        documents
+      },
+      ...outputs
     }
   }, {})
 
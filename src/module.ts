@@ -1,19 +1,25 @@
-import { existsSync, statSync, readFileSync } from 'fs'
+import { existsSync, statSync, readFileSync, promises as fsp } from 'fs'
+import { relative } from 'path'
 import { defu } from 'defu'
-import { parse } from 'graphql'
-import { useLogger, addPlugin, addImportsDir, addTemplate, resolveFiles, createResolver, defineNuxtModule, extendViteConfig } from '@nuxt/kit'
+import { printSchema } from 'graphql'
+import { useLogger, addPlugin, addImportsDir, addTemplate, resolveFiles, resolvePath, createResolver, addServerHandler, addVitePlugin, defineNuxtModule, extendViteConfig } from '@nuxt/kit'
 import type { NameNode, DefinitionNode } from 'graphql'
 import { name, version } from '../package.json'
 import generate from './generate'
-import { mapDocsToClients } from './utils'
-import type { GqlConfig, GqlClient, TokenOpts, GqlCodegen, TokenStorageOpts } from './types'
-import { prepareContext, mockTemplate } from './context'
+import { validateDocuments, checkDocuments, formatDiagnostic } from './validate'
+import { loadClientSchema, clearClientSchemas, readSchemaSnapshot, writeSchemaSnapshot, findSchemaChanges, collectScalars } from './schema'
+import type { GqlDiagnostic } from './validate'
+import { mapDocsToClients, extractDocuments, findReference, parseDocument } from './utils'
+import type { GqlConfig, GqlClient, TokenOpts, GqlCodegen, GqlBatchOpts, GqlCacheOpts, ProxyOpts, TokenRefreshOpts, TokenStorageOpts } from './types'
+import { prepareContext, preparePersistedQueries, prepareProxyAllowlist, persistedQueriesExport, mockTemplate, scalarsTemplate } from './context'
 import type { GqlContext } from './context'
 
 const logger = useLogger('nuxt-graphql-client')
 
 export type ModuleOptions = Partial<GqlConfig>
 
+export type { GqlError, GqlErrorPolicy, GqlFetchPolicy, GqlMockOptions, GqlPersistedQuery, GqlScalarMap, GqlScalarOptions, GqlRequestOptions, GqlServerOptions, GqlVariables } from './types'
+
 export default defineNuxtModule<GqlConfig>({
   meta: {
     name,
@@ -27,6 +33,9 @@ export default defineNuxtModule<GqlConfig>({
     clients: {},
     watch: true,
     codegen: true,
+    validate: true,
+    schemaSnapshots: true,
+    inspector: false,
     autoImport: true,
     tokenStorage: true,
     functionPrefix: 'Gql'
@@ -62,13 +71,19 @@ export default defineNuxtModule<GqlConfig>({
       }
     })
 
+    config.cache = !!config.cache && defu<GqlCacheOpts, [GqlCacheOpts]>(config.cache, { fetchPolicy: 'cache-first' })
+
     const ctx: GqlContext = {
       clientOps: {},
       fnImports: [],
       clients: Object.keys(config.clients!),
+      typesPath: resolver.resolve('module'),
       codegen: !config?.codegen ? false : !(!nuxt.options._prepare && !nuxt.options.dev) ? (nuxt.options._prepare || nuxt.options.dev) : !config?.codegen?.disableOnBuild
     }
 
+    // introspected schemas are reused by regenerations, until Nuxt is restarted or the snapshots are refreshed
+    clearClientSchemas()
+
     if (!ctx?.clients?.length) {
       const host =
         process.env.GQL_HOST || nuxt.options.runtimeConfig.public.GQL_HOST
@@ -93,6 +108,8 @@ export default defineNuxtModule<GqlConfig>({
       token: { type: 'Bearer', name: 'Authorization' },
       proxyCookies: true,
       tokenStorage: config.tokenStorage,
+      tokenRefresh: {},
+      cache: config.cache,
       preferGETQueries: config?.preferGETQueries ?? false
     } as GqlClient<object>
 
@@ -112,6 +129,9 @@ export default defineNuxtModule<GqlConfig>({
       const runtimeClientHost = k === defaultClient ? process.env.GQL_CLIENT_HOST : process.env?.[`GQL_${k.toUpperCase()}_CLIENT_HOST`]
       if (runtimeClientHost) { conf.clientHost = runtimeClientHost }
 
+      const runtimeWsHost = k === defaultClient ? process.env.GQL_WS_HOST : process.env?.[`GQL_${k.toUpperCase()}_WS_HOST`]
+      if (runtimeWsHost) { conf.wsHost = runtimeWsHost }
+
       if (!conf?.host) { throw new Error(`GraphQL client (${k}) is missing it's host.`) }
 
       const runtimeToken = k === defaultClient ? process.env.GQL_TOKEN : process.env?.[`GQL_${k.toUpperCase()}_TOKEN`]
@@ -122,6 +142,14 @@ export default defineNuxtModule<GqlConfig>({
 
       if (conf.tokenStorage) { conf.tokenStorage.name = conf.tokenStorage?.name || `gql:${k}` }
 
+      if (conf.tokenRefresh) { conf.tokenRefresh = defu<TokenRefreshOpts, [TokenRefreshOpts]>(typeof conf.tokenRefresh === 'object' ? conf.tokenRefresh : {}, { statusCodes: [401], errorCodes: ['UNAUTHENTICATED'] }) }
+
+      if (conf.cache) { conf.cache = defu<GqlCacheOpts, [GqlCacheOpts]>(typeof conf.cache === 'object' ? conf.cache : {}, { fetchPolicy: 'cache-first' }) }
+
+      if (conf.batch) { conf.batch = defu<GqlBatchOpts, [GqlBatchOpts]>(typeof conf.batch === 'object' ? conf.batch : {}, { window: 10, max: 10 }) }
+
+      if (conf.proxy) { conf.proxy = defu<ProxyOpts, [ProxyOpts]>(typeof conf.proxy === 'object' ? conf.proxy : {}, { allowlist: true }) }
+
       const schema = conf?.schema && srcResolver.resolve(conf.schema)
 
       if (schema && !existsSync(schema)) {
@@ -129,12 +157,20 @@ export default defineNuxtModule<GqlConfig>({
         logger.warn(`[nuxt-graphql-client] The Schema provided for the (${k}) GraphQL Client does not exist. \`host\` will be used as fallback.`)
       }
 
+      const runtimeMock = k === defaultClient ? process.env.GQL_MOCK : process.env?.[`GQL_${k.toUpperCase()}_MOCK`]
+      if (runtimeMock) { conf.mock = runtimeMock === 'true' }
+
+      if (conf.mock && !conf.schema) {
+        conf.mock = false
+        logger.warn(`[nuxt-graphql-client] The (${k}) GraphQL Client can't be mocked without a \`schema\`.`)
+      }
+
       ctx.clientOps![k] = []
       config.clients![k] = defu(conf, {})
       nuxt.options.runtimeConfig.public['graphql-client'].clients![k] = defu(conf, {})
 
       if (conf?.token?.value) {
-        nuxt.options.runtimeConfig['graphql-client'].clients[k] = { token: conf.token }
+        nuxt.options.runtimeConfig['graphql-client'].clients[k] = { token: { ...conf.token } }
 
         if (!conf?.retainToken) {
           (nuxt.options.runtimeConfig.public['graphql-client'] as GqlConfig).clients![k].token!.value = undefined
@@ -157,13 +193,239 @@ export default defineNuxtModule<GqlConfig>({
     }
 
     const gqlMatch = '**/*.{gql,graphql}'
-    async function generateGqlTypes () {
+    const sourceMatch = '**/*.{ts,js,vue}'
+    const extractedDir = resolver.resolve(nuxt.options.rootDir, 'node_modules/.cache/nuxt-graphql-client/documents')
+
+    // documents are tracked across generations, only the documents of changed files are re-extracted
+    const gqlDocuments = new Set<string>()
+
+    // source files containing GraphQL documents, along with the documents extracted to `extractedDir`
+    const sourceDocuments = new Map<string, string[]>()
+    const hasDocuments = (source: string) => /\b(gql|graphql)\s*`|<graphql[\s>]/.test(source)
+
+    // extract the documents of a source file, returns whether the extracted documents have changed
+    async function extractSourceDocuments (file: string) {
+      const previous = sourceDocuments.get(file) || []
+      const source = existsSync(file) ? readFileSync(file, 'utf-8') : ''
+      const path = documentPaths.find(p => file.startsWith(`${p}/`)) || srcResolver.resolve()
+
       const documents: string[] = []
+      let changed = false
+
+      for (const [i, { document, client }] of (hasDocuments(source) ? extractDocuments(source) : []).entries()) {
+        const dir = client && Object.keys(config.clients!).includes(client) ? resolver.resolve(extractedDir, client) : extractedDir
+        const doc = resolver.resolve(dir, `${relative(path, file).replace(/\W/g, '_')}_${i}.gql`)
+
+        documents.push(doc)
+        ctx.documentSources![doc] = file
+
+        if (existsSync(doc) && readFileSync(doc, 'utf-8') === document) { continue }
+
+        changed = true
+        await fsp.mkdir(dir, { recursive: true })
+        await fsp.writeFile(doc, document)
+      }
+
+      for (const doc of previous.filter(d => !documents.includes(d))) {
+        changed = true
+        delete ctx.documentSources![doc]
+        await fsp.rm(doc, { force: true })
+      }
+
+      if (documents.length) { sourceDocuments.set(file, documents) } else { sourceDocuments.delete(file) }
+
+      return changed
+    }
+
+    async function resolveDocuments () {
+      gqlDocuments.clear()
+      sourceDocuments.clear()
+      ctx.documentSources = {}
+      await fsp.rm(extractedDir, { recursive: true, force: true })
+
       for await (const path of documentPaths) {
         const files = (await resolveFiles(path, [gqlMatch, '!**/schemas'], { followSymbolicLinks: false })).filter(allowDocument)
 
-        documents.push(...files)
+        for (const file of files) { gqlDocuments.add(file) }
+
+        for (const file of await resolveFiles(path, [sourceMatch, '!**/*.d.ts', '!**/node_modules/**'], { followSymbolicLinks: false })) {
+          if (!sourceDocuments.has(file)) { await extractSourceDocuments(file) }
+        }
       }
+    }
+
+    // validation errors, shown in the error overlay during development
+    let validationErrors: GqlDiagnostic[] = []
+    let showValidationErrors: ((cleared?: boolean) => void) | undefined
+
+    if (nuxt.options.dev) {
+      nuxt.hook('vite:serverCreated', (server, { isClient }) => {
+        if (!isClient) { return }
+
+        showValidationErrors = (cleared) => {
+          if (!validationErrors.length) { return cleared && server.ws.send({ type: 'full-reload' }) }
+
+          const [{ file, line, column }] = validationErrors
+
+          server.ws.send({
+            type: 'error',
+            err: {
+              plugin: name,
+              message: `GraphQL validation failed:\n${validationErrors.map(formatDiagnostic).join('\n')}`,
+              stack: '',
+              ...(file && { id: file }),
+              ...(line && column && { loc: { file, line, column } })
+            }
+          })
+        }
+
+        server.ws.on('connection', () => showValidationErrors?.())
+      })
+    }
+
+    const snapshotDir = config.schemaSnapshots && (typeof config.schemaSnapshots === 'string'
+      ? srcResolver.resolve(config.schemaSnapshots)
+      : resolver.resolve(nuxt.options.rootDir, 'node_modules/.cache/nuxt-graphql-client/schemas'))
+
+    // persist the schema of each client as a snapshot, reporting the changes since the previous snapshot.
+    // clients without a `schema` use their snapshot in place of introspection for codegen and validation
+    async function prepareSchemaSnapshots (targets: string[]) {
+      const clients = { ...config.clients } as Record<string, GqlClient<object>>
+
+      if (!snapshotDir) { return clients }
+
+      for (const [k, v] of Object.entries(clients)) {
+        if (!targets.includes(k)) { continue }
+
+        const snapshot = resolver.resolve(snapshotDir, `${k}.schema.graphql`)
+
+        // failures are only fatal when the snapshots are refreshed explicitly (`nuxt-graphql-client refresh-schemas`)
+        const schema = await loadClientSchema(v, srcResolver).catch((e) => {
+          if (process.env.GQL_SCHEMA_REFRESH === 'true') { throw e }
+
+          logger.warn(!v.schema && existsSync(snapshot)
+            ? `[nuxt-graphql-client] Unable to introspect the (${k}) GraphQL Client, the schema snapshot is used instead. ${e.message}`
+            : `[nuxt-graphql-client] Unable to load the schema of the (${k}) GraphQL Client, it's snapshot isn't updated. ${e.message}`)
+        })
+
+        if (!v.schema && (schema || existsSync(snapshot))) { clients[k] = { ...v, schema: snapshot } }
+
+        if (!schema) { continue }
+
+        const previous = readSchemaSnapshot(snapshot)
+        const changes = previous ? findSchemaChanges(previous, schema, ctx.clientDocs?.[k] || []) : []
+
+        ctx.schemaChanges = { ...ctx.schemaChanges, [k]: changes }
+
+        if (changes.length) {
+          logger.warn([
+            `[nuxt-graphql-client] Schema changes of the (${k}) GraphQL Client:`,
+            ...changes.map(c => `  ${c.criticality}: ${c.description}${c.operations.length ? ` (affects: ${c.operations.join(', ')})` : ''}`)
+          ].join('\n'))
+        }
+
+        if (await writeSchemaSnapshot(schema, snapshot)) { logger.info(`[nuxt-graphql-client] Schema snapshot of the (${k}) GraphQL Client updated: ${snapshot}`) }
+      }
+
+      return clients
+    }
+
+    // diagnostics of each client, kept for the clients which aren't revalidated
+    const clientDiagnostics: Record<string, GqlDiagnostic[]> = {}
+
+    // validate the documents of the targeted clients against their schema, returns `false` when errors are found
+    async function validateGqlDocuments (clients: Record<string, GqlClient<object>>, targets: string[]) {
+      for (const client of targets) {
+        const docs = ctx.clientDocs?.[client] || []
+
+        delete clientDiagnostics[client]
+
+        if (!docs.length) { continue }
+
+        const schema = await loadClientSchema(clients[client], srcResolver).catch((e) => {
+          logger.warn(`[nuxt-graphql-client] Unable to load the schema of the (${client}) GraphQL Client, skipping validation. ${e.message}`)
+        })
+
+        if (!schema) { continue }
+
+        clientDiagnostics[client] = validateDocuments(client, schema, docs, ctx.documentSources)
+
+        for (const diagnostic of clientDiagnostics[client].filter(d => d.severity === 'warning')) {
+          logger.warn(`[nuxt-graphql-client] ${formatDiagnostic(diagnostic)}`)
+        }
+      }
+
+      const cleared = !!validationErrors.length
+      validationErrors = Object.values(clientDiagnostics).flat().filter(d => d.severity === 'error')
+      showValidationErrors?.(cleared)
+
+      if (!validationErrors.length) { return true }
+
+      const message = `[nuxt-graphql-client] GraphQL validation failed:\n${validationErrors.map(formatDiagnostic).join('\n')}`
+
+      if (!nuxt.options.dev && !nuxt.options._prepare) { throw new Error(message) }
+
+      logger.error(message)
+
+      return false
+    }
+
+    // report duplicate and anonymous operations, as well as documents which aren't associated with any client, returns `false` when the documents can't be generated
+    function checkGqlDocuments (documents: string[]) {
+      const diagnostics = checkDocuments(ctx.clientDocs || {}, documents, ctx.documentSources)
+
+      if (!diagnostics.length) { return true }
+
+      const message = `[nuxt-graphql-client] Invalid GraphQL documents:\n${diagnostics.map(formatDiagnostic).join('\n')}`
+
+      if (!nuxt.options.dev && !nuxt.options._prepare) { throw new Error(message) }
+
+      logger.warn(message)
+
+      return !diagnostics.some(d => d.severity === 'error')
+    }
+
+    // paths of the custom scalars within the operations of clients providing `gql/scalars/<client>.ts`
+    async function prepareScalars (clients: Record<string, GqlClient<object>>, targets: string[]) {
+      ctx.scalars ||= {}
+
+      for (const client of targets) {
+        const docs = ctx.clientDocs?.[client] || []
+        const file = await resolvePath(srcResolver.resolve('gql/scalars', client)).then(path => existsSync(path) ? path : undefined)
+
+        delete ctx.scalars[client]
+
+        if (!file || !docs.length) { continue }
+
+        const schema = await loadClientSchema(clients[client], srcResolver).catch((e) => {
+          logger.warn(`[nuxt-graphql-client] Unable to load the schema of the (${client}) GraphQL Client, custom scalars won't be parsed. ${e.message}`)
+        })
+
+        if (schema) { ctx.scalars[client] = { file, operations: collectScalars(schema, docs) } }
+      }
+    }
+
+    // clients which are yet to be generated, as the previous generation failed
+    const pendingClients = new Set<string>()
+
+    // without a previous output, the clients are provided without operations, so that `#gql` resolves while the errors are reported
+    async function prepareEmptyContext () {
+      if (ctx.generateImports) { return }
+
+      const clientDocs = ctx.clientDocs
+
+      ctx.clientDocs = Object.fromEntries(ctx.clients!.map(client => [client, []]))
+      ctx.template = Object.fromEntries(ctx.clients!.map(client => [client, ctx.codegen ? 'export function getSdk (_client: unknown, _withWrapper?: unknown) { return {} }' : mockTemplate({})]))
+
+      await prepareContext(ctx, config.functionPrefix!)
+
+      ctx.clientDocs = clientDocs
+    }
+
+    // generate the clients whose documents changed, every client is generated when `changed` isn't specified
+    async function generateGqlTypes (changed?: string[]) {
+      const documents = [...gqlDocuments, ...[...sourceDocuments.values()].flat()]
+      const previousDocs = ctx.clientDocs
 
       const plugins = ['typescript']
 
@@ -172,39 +434,148 @@ export default defineNuxtModule<GqlConfig>({
         plugins.push('typescript-operations', 'typescript-graphql-request')
       }
 
+      for (const [client, docs] of Object.entries(ctx.clientDocs || {})) {
+        if (!changed || changed.some(doc => docs.includes(doc) || previousDocs?.[client]?.includes(doc))) { pendingClients.add(client) }
+      }
+
+      const targets = [...pendingClients]
+
+      // keep the previous output until duplicate and anonymous operations are resolved
+      if (ctx.clientDocs && !checkGqlDocuments(documents)) { return prepareEmptyContext() }
+
+      // clients without documents are only snapshotted along with every other client
+      const clients = (ctx.clientDocs && (ctx.codegen || config.validate)) || process.env.GQL_SCHEMA_REFRESH === 'true'
+        ? await prepareSchemaSnapshots(changed ? targets : ctx.clients!)
+        : config.clients as Record<string, GqlClient<object>>
+
+      // keep the previous output until the errors are resolved
+      if (config.validate && ctx.clientDocs && !(await validateGqlDocuments(clients, targets))) { return prepareEmptyContext() }
+
       if (ctx.clientDocs) {
-        ctx.template = ctx?.codegen
+        const { plugins: codegenPlugins = [], ...codegenOptions } = typeof config.codegen !== 'boolean' ? config.codegen! : {}
+
+        // schemas which were already introspected are reused by codegen
+        const schemas: Record<string, string> = {}
+
+        for (const client of ctx.codegen ? targets : []) {
+          if (clients[client].schema || !ctx.clientDocs[client]?.length) { continue }
+
+          const schema = await loadClientSchema(clients[client], srcResolver).catch(() => undefined)
+          if (schema) { schemas[client] = printSchema(schema) }
+        }
+
+        const output = ctx?.codegen
           ? await generate({
-            clients: config.clients as GqlConfig['clients'],
-            plugins,
+            ...codegenOptions,
+            clients: Object.fromEntries(targets.map(k => [k, clients[k]])) as GqlConfig['clients'],
+            schemas,
+            plugins: [...plugins, ...codegenPlugins],
             documents,
             resolver: srcResolver,
-            clientDocs: ctx.clientDocs,
-            ...(typeof config.codegen !== 'boolean' && config.codegen)
-          }).then(output => output.reduce((acc, c) => ({ ...acc, [c.filename.split('.ts')[0]]: c.content }), {}))
-          : ctx.template = ctx.clients?.reduce<Record<string, string>>((acc, k) => {
-            const entries: Record<string, string> = {}
+            clientDocs: ctx.clientDocs
+          }).then(output => output.reduce<Record<string, string>>((acc, c) => ({ ...acc, [c.filename.split('.ts')[0]]: c.content }), {}))
+          : targets.reduce<Record<string, string>>((acc, k) => {
+            const entries: Parameters<typeof mockTemplate>[0] = {}
 
             for (const doc of ctx?.clientDocs?.[k] || []) {
-              const definitions = parse(readFileSync(doc, 'utf-8'))?.definitions as (DefinitionNode & { name: NameNode })[]
+              const definitions = parseDocument(doc)?.definitions as (DefinitionNode & { name: NameNode })[]
 
               for (const op of definitions) {
                 const name: string = op?.name?.value
                 const operation = op.loc?.source.body.slice(op.loc.start, op.loc.end) || undefined
 
-                if (name && operation) { entries[name] = operation }
+                if (name && operation) { entries[name] = { document: operation, type: 'operation' in op ? op.operation : undefined } }
               }
             }
 
             return { ...acc, [k]: mockTemplate(entries) }
           }, {})
+
+        // the output of the targeted clients replaces their previous output
+        const merge = (previous: Record<string, string> | undefined, next: Record<string, string>) => Object.fromEntries(
+          Object.entries({ ...previous, ...next }).filter(([k]) => k in next || !targets.includes(k.split('/')[0]))
+        )
+
+        // additional outputs are keyed by `<client>/<output>`
+        ctx.outputs = merge(ctx.outputs, Object.fromEntries(Object.entries(output).filter(([k]) => k.includes('/'))))
+        ctx.template = merge(ctx.template, Object.fromEntries(Object.entries(output).filter(([k]) => !k.includes('/'))))
       }
 
+      await prepareScalars(clients, targets)
+      await preparePersistedQueries(ctx, config.clients as Record<string, GqlClient<object>>)
+      await prepareProxyAllowlist(ctx, config.clients as Record<string, GqlClient<object>>)
       await prepareContext(ctx, config.functionPrefix!)
+
+      pendingClients.clear()
     }
 
     addPlugin(resolver.resolve('runtime/plugin'))
 
+    if (nuxt.options.dev && config.inspector) {
+      nuxt.options.runtimeConfig.public['graphql-client'].inspector = true
+
+      addPlugin({ src: resolver.resolve('runtime/inspector/plugin'), mode: 'client' }, { append: true })
+    }
+
+    // `<graphql>` SFC blocks are only used for code generation
+    addVitePlugin({
+      name: 'nuxt-graphql-client:sfc-block',
+      transform: (_code, id) => /[?&]type=graphql\b/.test(id) ? 'export default () => {}' : undefined
+    })
+
+    // operations declared by multiple clients don't have an unscoped function, references to it are reported once the code is compiled
+    addVitePlugin({
+      name: 'nuxt-graphql-client:ambiguous-functions',
+      enforce: 'post',
+      transform (code, id) {
+        const names = Object.keys(ctx.ambiguousFns || {})
+        if (!names.length || id.includes('node_modules') || !/\.(vue|[jt]sx?)$/.test(id.split('?')[0])) { return }
+
+        if (!new RegExp(`\\b(${names.join('|')})\\b`).test(code)) { return }
+
+        let reference: ReturnType<typeof findReference>
+
+        try {
+          reference = findReference(this.parse(code), names)
+        } catch {
+          return
+        }
+
+        if (!reference) { return }
+
+        const { operation, fns } = ctx.ambiguousFns![reference.name]
+
+        this.error(`[nuxt-graphql-client] \`${reference.name}\` is ambiguous, as the \`${operation}\` operation is declared by multiple clients. Use ${fns.map(fn => `\`${fn}\``).join(', ')} instead.`, reference.start)
+      }
+    })
+
+    // modules of Nitro routes are written to the build directory, hence they're regenerated along with the documents
+    nuxt.options.alias['#gql-server'] = resolver.resolve(nuxt.options.buildDir, 'gql/server')
+
+    addTemplate({
+      write: true,
+      filename: 'gql/server/proxy.mjs',
+      getContents: () => `export default ${JSON.stringify(ctx.proxyAllowlist || {})}`
+    })
+
+    addTemplate({
+      write: true,
+      filename: 'gql/server/proxy.d.ts',
+      getContents: () => 'declare const allowlists: Record<string, { definitions: string[], hashes: string[] }>\nexport default allowlists'
+    })
+
+    if (Object.values(config.clients!).some(c => typeof c === 'object' && c.proxy)) {
+      addServerHandler({ route: '/api/_gql/:client', handler: resolver.resolve('runtime/server/proxy') })
+    }
+
+    if (snapshotDir) {
+      addTemplate({
+        write: true,
+        filename: 'gql/schema-changes.json',
+        getContents: () => JSON.stringify(ctx.schemaChanges || {}, null, 2)
+      })
+    }
+
     if (config.autoImport) {
       nuxt.options.alias['#gql'] = resolver.resolve(nuxt.options.buildDir, 'gql')
 
@@ -224,12 +595,145 @@ export default defineNuxtModule<GqlConfig>({
           filename: `gql/${client}.${ctx.codegen ? 'ts' : 'mjs'}`,
           getContents: () => ctx.template?.[client] || ''
         })
+
+        const codegenOutputs = typeof config.codegen === 'object' ? config.codegen.outputs : undefined
+
+        for (const output of Object.keys({ ...codegenOutputs, ...(config.clients?.[client] as GqlClient)?.codegen?.outputs })) {
+          if (!ctx.codegen) { break }
+
+          addTemplate({
+            write: true,
+            filename: `gql/${client}/${output}.ts`,
+            getContents: () => ctx.outputs?.[`${client}/${output}`] || ''
+          })
+        }
+
+        if (!(config.clients?.[client] as GqlClient)?.persistedQueries) { continue }
+
+        // persisted sdks pass the hash of an operation in place of it's document
+        for (const filename of [`gql/${client}.persisted.mjs`, `gql/server/${client}.persisted.mjs`]) {
+          addTemplate({
+            write: filename.startsWith('gql/server/'),
+            filename,
+            getContents: () => mockTemplate(Object.entries(ctx.persistedQueries?.[client]?.queries || {})
+              .reduce((acc, [hash, { operation, type }]) => ({ ...acc, [operation]: { document: hash, type } }), {}))
+          })
+        }
+
+        addTemplate({
+          write: true,
+          filename: `gql/persisted-queries/${client}.json`,
+          getContents: () => JSON.stringify(Object.entries(ctx.persistedQueries?.[client]?.queries || {})
+            .reduce((acc, [hash, { document }]) => ({ ...acc, [hash]: document }), {}), null, 2)
+        })
+      }
+
+      const mockClients = ctx.clients.filter(client => (config.clients?.[client] as GqlClient)?.mock)
+
+      const mocksContents = async () => {
+        const mocks = await Promise.all(mockClients.map(async client => ({
+          client,
+          typeDefs: readFileSync(srcResolver.resolve((config.clients?.[client] as GqlClient).schema!), 'utf-8'),
+          options: await resolvePath(srcResolver.resolve('gql/mocks', client)).then(path => existsSync(path) ? path : undefined)
+        })))
+
+        return [
+          ...(mocks.length ? [`import { mockFetch } from '${resolver.resolve('runtime/mock')}'`] : []),
+          ...mocks.filter(m => m.options).map(m => `import ${m.client}Mocks from '${m.options}'`),
+          'export const GqlMocks = {',
+          ...mocks.map(m => `  ${m.client}: mockFetch(${JSON.stringify(m.typeDefs)}${m.options ? `, ${m.client}Mocks` : ''}),`),
+          '}'
+        ].join('\n')
+      }
+
+      // the modules shared by the app and Nitro routes, along with their declarations
+      for (const dir of ['gql', 'gql/server']) {
+        addTemplate({
+          write: dir !== 'gql',
+          filename: `${dir}/mocks.mjs`,
+          getContents: mocksContents
+        })
+
+        addTemplate({
+          write: dir !== 'gql',
+          filename: `${dir}/scalars.mjs`,
+          getContents: () => scalarsTemplate(ctx.scalars || {})
+        })
+
+        addTemplate({
+          write: true,
+          filename: `${dir}/mocks.d.ts`,
+          getContents: () => 'export declare const GqlMocks: Record<string, (url: string, init: RequestInit) => Promise<Response>>'
+        })
+
+        addTemplate({
+          write: true,
+          filename: `${dir}/scalars.d.ts`,
+          getContents: () => [
+            `import type { GqlScalarMap, GqlScalarOptions } from '${ctx.typesPath}'`,
+            'export declare const GqlScalars: Record<string, { scalars: GqlScalarOptions, operations: GqlScalarMap }>'
+          ].join('\n')
+        })
       }
 
       nuxt.hook('imports:extend', (autoimports) => {
         autoimports.push(...(ctx.fnImports || []))
       })
 
+      // `useGqlServer` and the Gql functions are auto-imported within Nitro routes
+      for (const client of ctx.codegen ? [] : ctx.clients) {
+        addTemplate({
+          write: true,
+          filename: `gql/server/${client}.mjs`,
+          getContents: () => ctx.template?.[client] || ''
+        })
+      }
+
+      // the TypeScript output of codegen is imported from the build directory
+      addTemplate({
+        write: true,
+        filename: 'gql/server/sdks.mjs',
+        getContents: () => [
+          ...ctx.clients!.map(client => `import { getSdk as ${client}GqlSdk } from '${ctx.persistedQueries?.[client] ? `./${client}.persisted.mjs` : ctx.codegen ? resolver.resolve(nuxt.options.buildDir, 'gql', client) : `./${client}.mjs`}'`),
+          'export const GqlServerSdks = {',
+          ...ctx.clients!.map(client => `  ${client}: ${client}GqlSdk,`),
+          '}',
+          `export const GqClientOps = ${JSON.stringify(ctx.clientOps)}`,
+          persistedQueriesExport(ctx)
+        ].join('\n')
+      })
+
+      addTemplate({
+        write: true,
+        filename: 'gql/server/sdks.d.ts',
+        getContents: () => [
+          'import type { GraphQLClient } from \'graphql-request\'',
+          `import type { GqlPersistedQuery } from '${ctx.typesPath}'`,
+          'type GqlServerSdk = (client: GraphQLClient, withWrapper?: <T>(action: () => Promise<T>, operationName: string, operationType?: string) => Promise<T>) => Record<string, (variables?: any, requestHeaders?: HeadersInit) => Promise<any>>',
+          'export declare const GqlServerSdks: Record<string, GqlServerSdk>',
+          'export declare const GqClientOps: Record<string, string[]>',
+          'export declare const GqlPersistedQueries: Record<string, Record<string, GqlPersistedQuery>>'
+        ].join('\n')
+      })
+
+      addTemplate({
+        write: true,
+        filename: 'gql/server/imports/index.mjs',
+        getContents: () => ctx.generateServerImports?.(resolver.resolve('runtime/server/client')) || ''
+      })
+
+      // the exports of the Gql functions are scanned on each build of Nitro, hence functions of added documents are auto-imported
+      nuxt.hook('nitro:config', (nitroConfig) => {
+        nitroConfig.externals = defu(nitroConfig.externals, { inline: [resolver.resolve(nuxt.options.buildDir, 'gql/server')] })
+
+        if (nitroConfig.imports === false) { return }
+
+        nitroConfig.imports = defu(nitroConfig.imports, {
+          presets: [{ from: resolver.resolve('runtime/server/client'), imports: ['useGqlServer'] }],
+          dirs: [resolver.resolve(nuxt.options.buildDir, 'gql/server/imports')]
+        })
+      })
+
       addImportsDir(resolver.resolve('runtime/composables'))
     }
 
@@ -239,25 +743,73 @@ export default defineNuxtModule<GqlConfig>({
       return !isSchema && !!statSync(srcResolver.resolve(f)).size
     }
 
+    // contents of the GraphQL templates, only the templates whose contents changed are regenerated
+    const templateContents: Record<string, string> = {}
+
+    async function changedTemplates () {
+      const changed = new Set<string>()
+
+      for (const template of nuxt.options.build.templates) {
+        if (!template.filename || !/^gql(\/|\.mjs$)/.test(template.filename)) { continue }
+
+        const contents = await template.getContents?.({})
+        if (contents === undefined || templateContents[template.filename] === contents) { continue }
+
+        templateContents[template.filename] = contents
+        changed.add(template.filename)
+      }
+
+      return changed
+    }
+
     if (config.watch) {
       nuxt.hook('builder:watch', async (event, path) => {
-        if (!path.match(/\.(gql|graphql)$/)) { return }
+        const file = srcResolver.resolve(path)
+        const isSource = !!path.match(/\.(ts|js|vue)$/) && !path.endsWith('.d.ts')
 
-        if (event !== 'unlink' && !allowDocument(path)) { return }
+        if (isSource) {
+          // only regenerate when documents are added to, changed in, or removed from the source file
+          if (!sourceDocuments.has(file) && (event === 'unlink' || !existsSync(file) || !hasDocuments(readFileSync(file, 'utf-8')))) { return }
+        } else {
+          if (!path.match(/\.(gql|graphql)$/)) { return }
+
+          if (event !== 'unlink' && !allowDocument(path) && !gqlDocuments.has(file)) { return }
+        }
 
         const start = Date.now()
-        await generateGqlTypes()
-        await nuxt.callHook('builder:generateApp')
+
+        // documents affected by the change, only the clients of these documents are generated
+        let changed = [file]
+
+        if (isSource) {
+          const previous = sourceDocuments.get(file) || []
+
+          if (!(await extractSourceDocuments(file))) { return }
+
+          changed = [...previous, ...(sourceDocuments.get(file) || [])]
+        } else if (event === 'unlink' || !allowDocument(path)) {
+          gqlDocuments.delete(file)
+        } else {
+          gqlDocuments.add(file)
+        }
+
+        await generateGqlTypes(changed)
+
+        const templates = await changedTemplates()
+        await nuxt.callHook('builder:generateApp', { filter: template => templates.has(template.filename!) })
 
         const time = Date.now() - start
         logger.success(`[GraphQL Client]: Generation completed in ${time}ms`)
       })
     }
 
+    await resolveDocuments()
     await generateGqlTypes()
 
+    if (config.watch && nuxt.options.dev) { await changedTemplates() }
+
     extendViteConfig((config) => {
-      config.optimizeDeps?.include?.push('graphql-request')
+      config.optimizeDeps?.include?.push('graphql-request', 'graphql-ws')
     })
   }
 })
@@ -0,0 +1,68 @@
+import { ClientError } from 'graphql-request'
+import type { GraphQLClient } from 'graphql-request'
+import type { GqlBatchOpts } from '../types'
+
+type BatchedRequest = {
+  document: string
+  variables?: object
+  resolve: (data: any) => void
+  reject: (error: any) => void
+}
+
+/**
+ * Create a request function which combines the operations sent within a time window into a single array-batched request.
+ *
+ * Results are split back to their callers, an operation that resolved with errors is rejected with it's own `ClientError`.
+ *
+ * @param {GraphQLClient} instance The client used to send the batched requests.
+ * @param {object} options Batching options of the client.
+ */
+export const createBatch = (instance: GraphQLClient, { window = 10, max = 10 }: GqlBatchOpts = {}) => {
+  const queues: Record<string, { headers?: HeadersInit, requests: BatchedRequest[], timeout?: ReturnType<typeof setTimeout> }> = {}
+
+  const flush = async (key: string) => {
+    const { headers, requests, timeout } = queues[key]
+    delete queues[key]
+    clearTimeout(timeout)
+
+    if (requests.length === 1) {
+      const [{ document, variables, resolve, reject }] = requests
+
+      return instance.request(document, variables, headers).then(resolve, reject)
+    }
+
+    const settle = (results: any[], status?: number, resultHeaders?: Headers) => requests.forEach(({ document, variables, resolve, reject }, i) => {
+      const result = results[i]
+
+      if (result?.data && !result?.errors) { return resolve(result.data) }
+
+      reject(new ClientError({ ...(result || { errors: [{ message: 'Missing result of batched operation.' }] }), status: status || 200, headers: resultHeaders }, { query: document, variables }))
+    })
+
+    try {
+      const results = await instance.batchRequests(requests.map(({ document, variables }) => ({ document, variables })), headers)
+
+      settle(results)
+    } catch (err: any) {
+      // batches with an operation missing it's data are rejected as a whole
+      const response = err instanceof ClientError ? err.response as Record<string, any> : undefined
+
+      if (!response?.[0]) { return requests.forEach(({ reject }) => reject(err)) }
+
+      settle(requests.map((_, i) => response[i]), response.status, response.headers)
+    }
+  }
+
+  return (document: string, variables?: object, headers?: HeadersInit) => new Promise((resolve, reject) => {
+    const key = JSON.stringify(headers || {})
+
+    queues[key] ||= { headers, requests: [] }
+    queues[key].requests.push({ document, variables, resolve, reject })
+
+    if (queues[key].requests.length >= max) {
+      flush(key)
+    } else {
+      queues[key].timeout ||= setTimeout(() => flush(key), window)
+    }
+  })
+}
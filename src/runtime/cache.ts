@@ -0,0 +1,192 @@
+import { Kind, parse, print, visit, valueFromASTUntyped } from 'graphql'
+import type { DocumentNode, FieldNode, FragmentDefinitionNode, OperationDefinitionNode, SelectionSetNode } from 'graphql'
+import type { GqlCacheKeyFn, GqlCacheState } from '../types'
+
+const typenameField: FieldNode = { kind: Kind.FIELD, name: { kind: Kind.NAME, value: '__typename' } }
+
+const typedDocuments: Record<string, string> = {}
+
+/**
+ * The document and variables of a cached operation, used to store entity fields by their arguments.
+ */
+export type GqlCacheOperation = { document: string, variables?: Record<string, any> }
+
+/**
+ * Adds `__typename` to every nested selection set of a document, as it's required to identify cached entities.
+ *
+ * @param {string} document GraphQL document
+ */
+export const addTypename = (document: string): string => {
+  typedDocuments[document] ||= print(visit(parse(document), {
+    SelectionSet: {
+      leave (node, _key, parent) {
+        if (parent && 'kind' in parent && parent.kind === Kind.OPERATION_DEFINITION) { return }
+
+        if (node.selections.some(s => s.kind === Kind.FIELD && s.name.value === '__typename')) { return }
+
+        return { ...node, selections: [...node.selections, typenameField] }
+      }
+    }
+  }))
+
+  return typedDocuments[document]
+}
+
+/**
+ * Create a key function from the field(s) used to identify entities of a given type.
+ *
+ * @param {string|string[]} fields
+ */
+export const keyFields = (fields: string | string[]): GqlCacheKeyFn => (entity) => {
+  const values = [fields].flat().map(f => entity?.[f])
+
+  return values.some(v => v === undefined || v === null) ? undefined : values.join(':')
+}
+
+/**
+ * Retrieve the cache key of an entity, `undefined` is returned for objects that can't be identified.
+ */
+export const identify = (entity: Record<string, any>, keys: Record<string, GqlCacheKeyFn> = {}): string | undefined => {
+  const typename = entity?.__typename
+
+  if (!typename) { return }
+
+  const id = keys[typename] ? keys[typename](entity) : entity.id ?? entity._id
+
+  return id === undefined || id === null ? undefined : `${typename}:${id}`
+}
+
+const parsedDocuments: Record<string, DocumentNode | null> = {}
+
+// documents which can't be parsed (e.g. hashes of strictly persisted queries) are cached by response keys
+const parseOperation = (document: string): DocumentNode | null => {
+  if (!(document in parsedDocuments)) {
+    try {
+      parsedDocuments[document] = parse(document)
+    } catch {
+      parsedDocuments[document] = null
+    }
+  }
+
+  return parsedDocuments[document]
+}
+
+type Selection = Map<string, FieldNode[]>
+
+// fields of a selection set keyed by their response key, including the fields of it's fragments
+const collectFields = (selectionSet: SelectionSetNode, fragments: Record<string, FragmentDefinitionNode>, fields: Selection = new Map()): Selection => {
+  for (const selection of selectionSet.selections) {
+    if (selection.kind === Kind.FIELD) {
+      const name = selection.alias?.value || selection.name.value
+
+      fields.set(name, [...(fields.get(name) || []), selection])
+    } else if (selection.kind === Kind.INLINE_FRAGMENT) {
+      collectFields(selection.selectionSet, fragments, fields)
+    } else if (fragments[selection.name.value]) {
+      collectFields(fragments[selection.name.value].selectionSet, fragments, fields)
+    }
+  }
+
+  return fields
+}
+
+type Operation = { selection: Selection, fragments: Record<string, FragmentDefinitionNode>, variables?: Record<string, any> }
+
+const selectionOf = (nodes: FieldNode[] | undefined, operation: Operation): Selection | undefined => {
+  if (!nodes) { return }
+
+  return nodes.reduce((acc, node) => node.selectionSet ? collectFields(node.selectionSet, operation.fragments, acc) : acc, new Map() as Selection)
+}
+
+// fields are stored by their name and arguments, e.g. `posts({"first":1})`
+const storageKey = (field: FieldNode, variables?: Record<string, any>): string => {
+  if (!field.arguments?.length) { return field.name.value }
+
+  const args = [...field.arguments]
+    .sort((a, b) => a.name.value.localeCompare(b.name.value))
+    .reduce((acc, arg) => ({ ...acc, [arg.name.value]: valueFromASTUntyped(arg.value, variables) }), {} as Record<string, any>)
+
+  return `${field.name.value}(${JSON.stringify(args)})`
+}
+
+const prepareOperation = (operation?: GqlCacheOperation): Operation | undefined => {
+  const document = operation?.document && parseOperation(operation.document)
+  const definition = document && document.definitions.find((d): d is OperationDefinitionNode => d.kind === Kind.OPERATION_DEFINITION)
+
+  if (!document || !definition) { return }
+
+  const fragments = document.definitions.reduce((acc, d) => d.kind === Kind.FRAGMENT_DEFINITION ? { ...acc, [d.name.value]: d } : acc, {} as Record<string, FragmentDefinitionNode>)
+
+  return { fragments, variables: operation.variables, selection: collectFields(definition.selectionSet, fragments) }
+}
+
+const normalize = (value: any, cache: GqlCacheState, keys?: Record<string, GqlCacheKeyFn>, operation?: Operation, selection?: Selection): any => {
+  if (Array.isArray(value)) { return value.map(v => normalize(v, cache, keys, operation, selection)) }
+
+  if (!value || typeof value !== 'object') { return value }
+
+  const fields = Object.entries(value).reduce((acc, [k, v]) => {
+    const nodes = selection?.get(k)
+
+    return { ...acc, [nodes ? storageKey(nodes[0], operation?.variables) : k]: normalize(v, cache, keys, operation, operation && selectionOf(nodes, operation)) }
+  }, {} as Record<string, any>)
+
+  const key = identify(value, keys)
+
+  if (!key) { return fields }
+
+  cache.entities[key] = { ...cache.entities[key], ...fields }
+
+  return { __ref: key }
+}
+
+const denormalize = (value: any, cache: GqlCacheState, seen = new Map<string, Record<string, any>>(), operation?: Operation, selection?: Selection): any => {
+  if (Array.isArray(value)) { return value.map(v => denormalize(v, cache, seen, operation, selection)) }
+
+  if (!value || typeof value !== 'object') { return value }
+
+  // fields are read by their arguments, and returned by their response key
+  if (operation && selection) {
+    const fields = '__ref' in value ? { ...cache.entities[value.__ref] } : value
+
+    return [...selection].reduce((acc, [name, nodes]) => {
+      const k = storageKey(nodes[0], operation.variables)
+
+      return k in fields ? { ...acc, [name]: denormalize(fields[k], cache, seen, operation, selectionOf(nodes, operation)) } : acc
+    }, {} as Record<string, any>)
+  }
+
+  if ('__ref' in value) {
+    if (seen.has(value.__ref)) { return seen.get(value.__ref) }
+
+    const entity: Record<string, any> = {}
+    seen.set(value.__ref, entity)
+
+    return Object.assign(entity, denormalize({ ...cache.entities[value.__ref] }, cache, seen))
+  }
+
+  return Object.entries(value).reduce((acc, [k, v]) => ({ ...acc, [k]: denormalize(v, cache, seen) }), {} as Record<string, any>)
+}
+
+/**
+ * Normalize and store the result of an operation. Results without a `key` only update the cached entities.
+ *
+ * Entity fields are stored by their arguments when the `operation` is provided, otherwise by their response key.
+ */
+export const writeCache = (cache: GqlCacheState, key: string | undefined, data: any, keys?: Record<string, GqlCacheKeyFn>, operation?: GqlCacheOperation) => {
+  const prepared = prepareOperation(operation)
+  const result = normalize(data, cache, keys, prepared, prepared?.selection)
+
+  if (key) { cache.results[key] = result }
+}
+
+/**
+ * Read the result of an operation from the cache, `undefined` is returned when the result isn't cached.
+ */
+export const readCache = (cache: GqlCacheState | undefined, key: string, operation?: GqlCacheOperation) => {
+  if (!cache || !(key in cache.results)) { return }
+
+  const prepared = prepareOperation(operation)
+
+  return denormalize(cache.results[key], cache, undefined, prepared, prepared?.selection)
+}
@@ -2,13 +2,27 @@ import { defu } from 'defu'
 import { hash } from 'ohash'
 import type { Ref } from 'vue'
 import type { AsyncData } from 'nuxt/dist/app/composables'
+import { GraphQLClient } from 'graphql-request'
 import type { ClientError } from 'graphql-request'
-import type { GqlState, GqlConfig, GqlError, TokenOpts, OnGqlError, GqlStateOpts } from '../../types'
+import type { PatchedRequestInit } from 'graphql-request/dist/types'
+import { callWithNuxt } from '#app'
+import type { GqlState, GqlConfig, GqlError, TokenOpts, OnGqlError, GqlStateOpts, GqlCacheState, GqlRequestOptions, GqlPaginationOpts, GqlVariables, GqlAsyncOpts, GqlInspectorRecord } from '../../types'
+import { addTypename, identify, readCache, writeCache } from '../cache'
+import type { GqlCacheOperation } from '../cache'
+import { persistedFetch } from '../persisted'
+import { hasFiles, uploadFetch } from '../upload'
+import { abortable, isAuthFailure, resolveRetry, retryDelay, shouldRetry } from '../retry'
+import { getPath, setPath, mergePage, hasMore } from '../pagination'
+import { recordOperation, settleOperation, inspectRequest } from '../inspector'
+import { transformOperationScalars } from '../scalars'
+import { getOperationClient as operationClient } from '../utils'
 // @ts-ignore
 // eslint-disable-next-line import/named
-import { GqlSdks, GqClientOps } from '#gql'
-import type { GqlOps, GqlClients, GqlSdkFuncs } from '#gql'
-import { useState, useCookie, useNuxtApp, useAsyncData, useRuntimeConfig } from '#imports'
+import { GqlSdks, GqClientOps, GqlPersistedQueries } from '#gql'
+import { GqlScalars } from '#gql/scalars'
+import { GqlMocks } from '#gql/mocks'
+import type { GqlOps, GqlClients, GqlSdkFuncs, GqlClientSdkFuncs } from '#gql'
+import { ref, unref, watch, computed, useState, useCookie, useNuxtApp, useAsyncData, onScopeDispose, getCurrentScope, refreshNuxtData, useRuntimeConfig } from '#imports'
 
 const getGqlClient = (client?: GqlClients, state?: Ref<GqlState>): GqlClients => {
   if (!state) { state = useGqlState() }
@@ -16,6 +30,47 @@ const getGqlClient = (client?: GqlClients, state?: Ref<GqlState>): GqlClients =>
   return client || (state.value?.default ? 'default' : Object.keys(state.value)[0]) as GqlClients
 }
 
+const getOperationClient = (operation: string, client?: string): GqlClients => operationClient(GqClientOps, operation, c => `useGql('${c}')`, client) as GqlClients
+
+// GraphQL errors of the requests resolved with partial data by the `all` error policy, keyed by the data
+const partialErrors = new WeakMap<object, GqlError>()
+
+type GqlClientFunc<C extends keyof GqlClientSdkFuncs, T> = T extends keyof GqlClientSdkFuncs[C]
+  ? GqlClientSdkFuncs[C][T] extends (...args: any) => any ? GqlClientSdkFuncs[C][T] : never
+  : never
+
+// Retrieves an operation's document by invoking its sdk function against a stub client, persisted sdks provide the hash of the operation.
+const getSdkDocument = (client: GqlClients, operation: string): string => {
+  let document: string | undefined
+
+  GqlSdks[client as keyof typeof GqlSdks]!({ request: (doc: string) => { document = doc } } as any)[operation as GqlOps]()
+
+  if (!document) { throw new Error('Invalid GraphQL Operation') }
+
+  return document
+}
+
+const getGqlDocument = (client: GqlClients, operation: string): string => {
+  const document = getSdkDocument(client, operation)
+
+  return GqlPersistedQueries?.[client]?.[document]?.document ?? document
+}
+
+const parseScalars = (client: GqlClients, operation: string, data: any) => transformOperationScalars(GqlScalars?.[client], operation, data, 'parse')
+
+const serializeScalars = (client: GqlClients, operation: string, variables?: object) => transformOperationScalars(GqlScalars?.[client], operation, variables, 'serialize')
+
+// The document and serialized variables of an operation, which identify the arguments of it's cached fields.
+const getCacheOperation = (client: GqlClients, operation: string, variables?: object): GqlCacheOperation => {
+  const document = getGqlDocument(client, operation)
+
+  return {
+    // documents of persisted queries are prepared at build time
+    document: GqlPersistedQueries?.[client] ? document : addTypename(document),
+    variables: serializeScalars(client, operation, variables)
+  }
+}
+
 const useGqlState = (): Ref<GqlState> => {
   const nuxtApp = useNuxtApp() as Partial<{ _gqlState: Ref<GqlState> }>
 
@@ -187,52 +242,240 @@ export const useGqlHost = (host: string, client?: GqlClients) => {
 
   client = getGqlClient(client, state)
 
+  state.value[client].host = host
+
   return state.value?.[client].instance!.setEndpoint(host)
 }
 
-export const useGql = (): (<
+export function useGql (): (<
   T extends GqlOps,
   R extends ReturnType<GqlSdkFuncs[T]>,
   P extends Parameters<GqlSdkFuncs[T]>['0'],
-  > (args: { operation: T, variables?: P }) => R) &
+  > (args: { operation: T, variables?: P, options?: GqlRequestOptions }) => R) &
   (<
     T extends GqlOps,
     R extends ReturnType<GqlSdkFuncs[T]>,
     P extends Parameters<GqlSdkFuncs[T]>['0'],
-    > (operation: T, variables?: P) => R) => {
+    > (operation: T, variables?: P, options?: GqlRequestOptions) => R)
+export function useGql<C extends keyof GqlClientSdkFuncs> (client: C): (<
+  T extends keyof GqlClientSdkFuncs[C],
+  R extends ReturnType<GqlClientFunc<C, T>>,
+  P extends Parameters<GqlClientFunc<C, T>>['0'],
+  > (args: { operation: T, variables?: P, options?: GqlRequestOptions }) => R) &
+  (<
+    T extends keyof GqlClientSdkFuncs[C],
+    R extends ReturnType<GqlClientFunc<C, T>>,
+    P extends Parameters<GqlClientFunc<C, T>>['0'],
+    > (operation: T, variables?: P, options?: GqlRequestOptions) => R)
+export function useGql (scope?: GqlClients) {
+  const nuxtApp = useNuxtApp()
   const state = useGqlState()
   const errState = useGqlErrorState()
+  const cacheState = useGqlCacheState()
+  const { clients, inspector: inspectorEnabled } = (useRuntimeConfig()?.public?.['graphql-client'] || {}) as GqlConfig
+  const inspector = process.dev && inspectorEnabled ? useGqlInspectorState() : undefined
+
+  // concurrent authentication failures of a client share a single refresh
+  const refreshToken = (client: GqlClients, error: GqlError): Promise<boolean> => {
+    const clientState = state.value[client]
+
+    clientState.refreshing ||= (async () => {
+      const token = ref<string>()
+      await nuxtApp.callHook('gql:auth:refresh', { client, token, error })
+
+      if (!token.value) { return false }
+
+      await callWithNuxt(nuxtApp, () => useGqlToken(token.value!, { client }))
+
+      return true
+    })().finally(() => { delete clientState.refreshing })
 
-  return (...args: any[]) => {
+    return clientState.refreshing
+  }
+
+  const gql = (...args: any[]): any => {
     const operation = (typeof args?.[0] !== 'string' && 'operation' in args?.[0] ? args[0].operation : args[0]) ?? undefined
     const variables = (typeof args?.[0] !== 'string' && 'variables' in args?.[0] ? args[0].variables : args[1]) ?? undefined
+    const options: GqlRequestOptions = { ...(scope && { client: scope }), ...((typeof args?.[0] !== 'string' && 'options' in args?.[0] ? args[0].options : args[2]) ?? {}) }
 
-    const client = Object.keys(GqClientOps).find(k => GqClientOps[k as keyof typeof GqClientOps].includes(operation)) ?? 'default'
+    const sdkClient = getOperationClient(operation, options.client)
+    const client = (options.client || sdkClient) as GqlClients
 
-    const { instance } = state!.value?.[client]
+    const { instance, host, requestInit, batch, pending, cacheKeys } = state!.value?.[client] || {}
 
     if (!instance) { throw new Error('Invalid GraphQL Operation') }
 
-    return GqlSdks[client as keyof typeof GqlSdks]!(instance, async (action, operationName, operationType): Promise<any> => {
-      try {
-        return await action()
-      } catch (err: ClientError | any) {
-        errState.value = {
-          client,
-          operationType,
-          operationName,
-          statusCode: err?.response?.status,
-          gqlErrors: err?.response?.errors || (err?.response?.message && [{ message: err?.response?.message }]) || []
+    const cacheConfig = clients?.[client]?.cache
+    const cache = typeof cacheConfig === 'object' ? (cacheState.value[client] ||= { entities: {}, results: {} }) : undefined
+    const fetchPolicy = options?.fetchPolicy || (typeof cacheConfig === 'object' && cacheConfig.fetchPolicy) || 'cache-first'
+    const key = hash({ operation, variables })
+
+    const typename = cache && !GqlPersistedQueries?.[sdkClient]
+
+    const retry = resolveRetry(options.retry, clients?.[client]?.retry)
+    const timeout = options.timeout ?? clients?.[client]?.timeout
+    const errorPolicy = options.errorPolicy || clients?.[client]?.errorPolicy || 'none'
+
+    const parse = (data: any) => parseScalars(sdkClient, operation, data)
+
+    const cacheOperation = cache && getCacheOperation(sdkClient, operation, variables)
+
+    // aborts the current attempt once it exceeds the timeout, or the request is aborted by `options.signal`
+    let signal: AbortSignal | undefined
+
+    let sent: GqlError['request']
+
+    const request = {
+      request: (document: string, variables?: object, requestHeaders?: HeadersInit) => {
+        document = typename ? addTypename(document) : document
+        sent = { document, variables: variables as Record<string, any> }
+
+        requestHeaders = options.headers ? { ...requestHeaders as Record<string, string>, ...options.headers } : requestHeaders
+
+        const files = hasFiles(variables)
+
+        if (!files && batch && !options.fetchOptions) { return abortable(batch(document, variables, requestHeaders), signal) }
+
+        const upload = files && (options.onUploadProgress || clients?.[client]?.preferGETQueries)
+
+        if (!upload && !options.fetchOptions) { return instance.request({ document, variables, requestHeaders, signal: signal as PatchedRequestInit['signal'] }) }
+
+        // multipart requests are sent as POST requests by a one-off client, which also applies per-call fetch options
+        const uploader = upload && options.onUploadProgress && !GqlMocks?.[client] ? uploadFetch(options.onUploadProgress) : undefined
+        const persisted = GqlPersistedQueries?.[client]
+
+        return new GraphQLClient(host!, {
+          ...requestInit,
+          ...options.fetchOptions as PatchedRequestInit,
+          ...(upload && { method: 'POST' }),
+          ...(uploader && { fetch: persisted ? persistedFetch(persisted, uploader) : uploader })
+        }).request({ document, variables, requestHeaders, signal: signal as PatchedRequestInit['signal'] })
+      }
+    } as unknown as GraphQLClient
+
+    return GqlSdks[sdkClient as keyof typeof GqlSdks]!(request, async (action, operationName, operationType): Promise<any> => {
+      const record = inspector && recordOperation(inspector, { client, operation, operationName, operationType, variables, key })
+
+      if (cache && operationType === 'query' && fetchPolicy !== 'network-only') {
+        const cached = readCache(cache, key, cacheOperation)
+
+        if (fetchPolicy === 'cache-only') {
+          if (record) { settleOperation(record, { data: cached ?? null, source: 'cache' }) }
+
+          return parse(cached ?? null)
         }
 
-        if (state.value.onError) {
-          state.value.onError(errState.value)
+        if (cached !== undefined) {
+          if (fetchPolicy === 'cache-and-network') {
+            gql(operation, variables, { ...options, fetchPolicy: 'network-only' }).catch(() => {})
+          }
+
+          if (record) { settleOperation(record, { data: cached, source: 'cache' }) }
+
+          return parse(cached)
         }
+      }
+
+      // identical queries in flight share a single request, the signal of each call only aborts it's own wait
+      const shared = operationType === 'query' && !!pending && !options.headers && !options.fetchOptions && !options.errorPolicy
+      const callSignal = shared ? undefined : options.signal
+
+      const abortError = (attempt: number): GqlError => ({ client, operationType, operationName, attempt, kind: 'abort', gqlErrors: [{ message: 'Request aborted.' }], request: sent })
+
+      // requests are replayed once after refreshing the token
+      let replayed = false
+
+      const execute = async (attempt = 1): Promise<any> => {
+        const controller = timeout || record || callSignal ? new AbortController() : undefined
+        const timer = timeout && controller && setTimeout(() => controller.abort(), timeout)
+        const abort = () => controller?.abort()
+
+        signal = controller?.signal
+
+        if (record && signal) { inspectRequest(signal, record) }
+
+        if (callSignal?.aborted) { abort() } else { callSignal?.addEventListener('abort', abort) }
+
+        try {
+          return await action()
+        } catch (err: ClientError | any) {
+          if (callSignal?.aborted) { throw abortError(attempt) }
+
+          const timedOut = !!controller?.signal.aborted
+
+          const error: GqlError = {
+            client,
+            operationType,
+            operationName,
+            attempt,
+            kind: err?.response?.errors?.length ? 'graphql' : 'network',
+            statusCode: err?.response?.status,
+            gqlErrors: err?.response?.errors || (err?.response?.message && [{ message: err?.response?.message }]) || (timedOut && [{ message: `Request timed out after ${timeout}ms.` }]) || [],
+            data: err?.response?.data ?? undefined,
+            request: sent
+          }
+
+          // GraphQL errors alongside partial data are resolved, unless the `none` error policy applies
+          const partial = error.kind === 'graphql' && errorPolicy !== 'none' && error.data != null
+
+          if (!partial || errorPolicy === 'all') {
+            errState.value = error
+
+            if (state.value.onError) {
+              state.value.onError(error)
+            }
+          }
+
+          const tokenRefresh = clients?.[client]?.tokenRefresh
 
-        throw errState.value
+          if (!replayed && typeof tokenRefresh === 'object' && isAuthFailure(tokenRefresh, err)) {
+            replayed = true
+
+            if (await refreshToken(client, error)) { return execute(attempt + 1) }
+          }
+
+          if (!shouldRetry(retry, { attempt, operationType, timedOut, error: err })) {
+            if (!partial) { throw error }
+
+            if (errorPolicy === 'all') { partialErrors.set(error.data, error) }
+
+            return error.data
+          }
+
+          await new Promise(resolve => setTimeout(resolve, retryDelay(retry!, attempt)))
+
+          return execute(attempt + 1)
+        } finally {
+          clearTimeout(timer)
+          callSignal?.removeEventListener('abort', abort)
+        }
       }
-    })[operation as GqlOps](variables) as any
+
+      const data = await (!shared
+        ? execute()
+        : abortable(pending![key] ||= execute().finally(() => { delete pending![key] }), options.signal)
+      ).catch((error: GqlError | Error) => {
+        if (options.signal?.aborted && !('kind' in error)) { error = abortError(1) }
+
+        if (record) { settleOperation(record, { error: error as GqlError }) }
+
+        throw error
+      })
+
+      if (record) { settleOperation(record, { data, error: partialErrors.get(data) }) }
+
+      // partial data is only cached when it's errors are ignored
+      if (cache && !partialErrors.has(data)) { writeCache(cache, operationType === 'query' ? key : undefined, data, cacheKeys, cacheOperation) }
+
+      const result = parse(data)
+
+      if (partialErrors.has(data)) { partialErrors.set(result, partialErrors.get(data)!) }
+
+      return result
+    })[operation as GqlOps](serializeScalars(sdkClient, operation, variables)) as any
   }
+
+  return gql
 }
 
 /**
@@ -262,38 +505,411 @@ export const useGqlError = (onError: OnGqlError) => {
 
 const useGqlErrorState = () => useState<GqlError | null>('_gqlErrors', () => null)
 
+const useGqlInspectorState = () => useState<GqlInspectorRecord[]>('_gqlInspector', () => [])
+
+// keys of the active `useAsyncGql` calls, grouped by operation name
+const useGqlQueries = () => {
+  const nuxtApp = useNuxtApp() as Partial<{ _gqlQueries: Record<string, string[]> }>
+
+  return (nuxtApp._gqlQueries ||= {})
+}
+
+// register the key of an active query, until the current scope is disposed
+const trackQuery = (operation: string, key: string) => {
+  const queries = useGqlQueries()
+  queries[operation] = [...(queries[operation] || []), key]
+
+  if (!getCurrentScope()) { return }
+
+  onScopeDispose(() => {
+    const index = queries[operation]?.indexOf(key)
+    if (index !== undefined && index > -1) { queries[operation].splice(index, 1) }
+  })
+}
+
+const useGqlCacheState = () => useState<Record<string, GqlCacheState>>('_gqlCache', () => ({}))
+
+/**
+ * `useGqlCache` provides access to the normalized cache of a client.
+ *
+ * @param {string} client The name of your GraphQL client. Defaults to either the client named `default` or the first configured client.
+ *
+ * @example <caption>Identify `Launch` entities by their mission name.</caption>
+ * ```ts
+ * useGqlCache().keys.Launch = launch => launch.mission_name
+ * ```
+ * */
+export const useGqlCache = (client?: GqlClients) => {
+  const state = useGqlState()
+  const cacheState = useGqlCacheState()
+
+  client = getGqlClient(client, state)
+
+  const keys = (state.value[client].cacheKeys ||= {})
+
+  return {
+    /**
+     * Functions used to identify entities, keyed by `__typename`.
+     * */
+    keys,
+
+    /**
+     * Retrieve the cache key of an entity.
+     * */
+    identify: (entity: Record<string, any>) => identify(entity, keys),
+
+    /**
+     * Remove an entity from the cache.
+     * */
+    evict: (key: string) => { delete cacheState.value[client!]?.entities?.[key] },
+
+    /**
+     * Clear all cached entities and results.
+     * */
+    reset: () => { cacheState.value[client!] = { entities: {}, results: {} } }
+  }
+}
+
+// unwrap variables provided as a ref, as well as their individual fields
+const unrefVariables = (variables: GqlVariables<Record<string, any>> | undefined) => {
+  const value = unref(variables)
+
+  if (!value || typeof value !== 'object' || Array.isArray(value)) { return value }
+
+  return Object.fromEntries(Object.entries(value).map(([name, field]) => [name, unref(field)]))
+}
+
 /**
  * Asynchronously query data that is required to load a page or component.
  *
  * @param {Object} options
  * @param {string} options.operation Name of the query to be executed.
- * @param {string} options.variables Variables to be passed to the query.
- * @param {Object} options.options AsyncData options.
+ * @param {string} options.variables Variables to be passed to the query, the query is refetched when reactive variables change.
+ * @param {Object} options.options AsyncData options, the `debounce` of refetches, as well as the options of the request (`fetchPolicy`, `headers`, `signal`, etc).
  */
 export function useAsyncGql<
 T extends GqlOps,
 P extends Parameters<GqlSdkFuncs[T]>['0'],
 R extends AsyncData<Awaited<ReturnType<GqlSdkFuncs[T]>>, GqlError>,
-O extends Parameters<typeof useAsyncData>['2']> (options: { operation: T, variables?: P, options?: O }): Promise<R>
+O extends Parameters<typeof useAsyncData>['2'] & GqlRequestOptions & GqlAsyncOpts> (options: { operation: T, variables?: GqlVariables<P>, options?: O }): Promise<R>
 
 /**
  * Asynchronously query data that is required to load a page or component.
  *
  * @param {string} operation Name of the query to be executed.
- * @param {string} variables Variables to be passed to the query.
- * @param {Object} options AsyncData options.
+ * @param {string} variables Variables to be passed to the query, the query is refetched when reactive variables change.
+ * @param {Object} options AsyncData options, the `debounce` of refetches, as well as the options of the request (`fetchPolicy`, `headers`, `signal`, etc).
+ *
+ * @example <caption>Refetch when the search input changes.</caption>
+ * ```ts
+ * const search = ref('')
+ *
+ * const { data } = await useAsyncGql('launches', { search }, { debounce: 300 })
+ * ```
  */
 export function useAsyncGql<
 T extends GqlOps,
 P extends Parameters<GqlSdkFuncs[T]>['0'],
 R extends AsyncData<Awaited<ReturnType<GqlSdkFuncs[T]>>, GqlError>,
-O extends Parameters<typeof useAsyncData>['2']> (operation: T, variables?: P, options?: O): Promise<R>
+O extends Parameters<typeof useAsyncData>['2'] & GqlRequestOptions & GqlAsyncOpts> (operation: T, variables?: GqlVariables<P>, options?: O): Promise<R>
 
 export function useAsyncGql (...args: any[]) {
   const operation = (typeof args?.[0] !== 'string' && 'operation' in args?.[0] ? args[0].operation : args[0]) ?? undefined
   const variables = (typeof args?.[0] !== 'string' && 'variables' in args?.[0] ? args[0].variables : args[1]) ?? undefined
-  const options = (typeof args?.[0] !== 'string' && 'options' in args?.[0] ? args[0].options : args[2]) ?? undefined
-  const key = hash({ operation, variables })
-  // @ts-ignore
-  return useAsyncData(key, () => useGql()(operation, variables), options)
+  const { fetchPolicy, retry, timeout, headers, signal, client: clientOverride, fetchOptions, errorPolicy, debounce, ...options } = ((typeof args?.[0] !== 'string' && 'options' in args?.[0] ? args[0].options : args[2]) ?? {}) as GqlRequestOptions & GqlAsyncOpts
+
+  // the key of the current variables, the data is registered with the key of the initial variables
+  const key = computed(() => hash({ operation, variables: unrefVariables(variables) }))
+
+  const gql = useGql()
+
+  let controller: AbortController | undefined
+
+  signal?.addEventListener('abort', () => controller?.abort())
+
+  // GraphQL errors returned alongside partial data by the `all` error policy
+  const partialError = useState<GqlError | null>(`gql:partial:${key.value}`, () => null)
+
+  const asyncData = useAsyncData(key.value, () => {
+    controller?.abort()
+    const current = controller = new AbortController()
+
+    if (signal?.aborted) { controller.abort() }
+
+    return gql(operation, unrefVariables(variables), { fetchPolicy, retry, timeout, headers, client: clientOverride, fetchOptions, errorPolicy, signal: controller.signal })
+      .then((data: any) => {
+        if (current === controller) { partialError.value = partialErrors.get(data) || null }
+
+        return data
+      })
+  }, options as Parameters<typeof useAsyncData>['2'])
+
+  const error = computed(() => asyncData.error.value || partialError.value)
+
+  const sdkClient = getOperationClient(operation, clientOverride)
+  const client = (clientOverride || sdkClient) as GqlClients
+
+  trackQuery(operation, key.value)
+
+  let timer: ReturnType<typeof setTimeout> | undefined
+
+  watch(key, () => {
+    clearTimeout(timer)
+
+    if (!debounce) { return asyncData.refresh() }
+
+    timer = setTimeout(() => asyncData.refresh(), debounce)
+  })
+
+  if (getCurrentScope()) { onScopeDispose(() => clearTimeout(timer)) }
+
+  if (process.client && (useRuntimeConfig()?.public?.['graphql-client'] as GqlConfig)?.clients?.[client]?.cache) {
+    const cacheState = useGqlCacheState()
+
+    // keep the data in sync with cached entities updated by subsequent operations
+    watch(() => readCache(cacheState.value[client], key.value, getCacheOperation(sdkClient, operation, unrefVariables(variables))), (cached) => {
+      if (cached !== undefined) { asyncData.data.value = parseScalars(sdkClient, operation, cached) }
+    })
+  }
+
+  return Object.assign(asyncData.then(result => Object.assign(result, { error })), asyncData, { error })
+}
+
+/**
+ * Asynchronously query the first page of a paginated list, subsequent pages are merged into the data by `fetchMore`.
+ *
+ * @param {string} operation Name of the query to be executed.
+ * @param {string} variables Variables of the first page.
+ * @param {Object} options Pagination options, AsyncData options, as well as the options of the request (`fetchPolicy`, `headers`, `signal`, etc).
+ *
+ * @example <caption>Relay-style connection at `launches`.</caption>
+ * ```ts
+ * const { data, fetchMore, hasNextPage } = await useAsyncGqlPaginated('launches', { first: 10 }, { strategy: 'relay', path: 'launches' })
+ * ```
+ */
+export function useAsyncGqlPaginated<
+T extends GqlOps,
+P extends Parameters<GqlSdkFuncs[T]>['0'],
+R extends AsyncData<Awaited<ReturnType<GqlSdkFuncs[T]>>, GqlError>,
+O extends Parameters<typeof useAsyncData>['2'] & GqlRequestOptions & GqlPaginationOpts> (operation: T, variables: P, options: O): Promise<R & {
+  /**
+   * Fetch the next page and merge it into `data`.
+   * */
+  fetchMore: () => Promise<void>
+
+  /**
+   * Whether a subsequent page is available.
+   * */
+  hasNextPage: Ref<boolean>
+
+  /**
+   * Discard the subsequent pages and refresh the first page.
+   * */
+  reset: () => Promise<void>
+}>
+
+export function useAsyncGqlPaginated (...args: any[]) {
+  const [operation, variables, { strategy, path, cursorVariable = 'after', offsetVariable = 'offset', limitVariable, fetchPolicy, retry, timeout, headers, signal, client, fetchOptions, errorPolicy, ...options }] = args as [string, Record<string, any> | undefined, GqlPaginationOpts & GqlRequestOptions & Parameters<typeof useAsyncData>['2']]
+
+  const pagination: GqlPaginationOpts = { strategy, path, limitVariable }
+  const requestOptions = { fetchPolicy, retry, timeout, headers, signal, client, fetchOptions, errorPolicy }
+  const key = hash({ operation, variables, strategy })
+
+  const gql = useGql()
+  const hasNextPage = useState(`gql:paginated:${key}`, () => false)
+
+  trackQuery(operation, key)
+
+  const asyncData = useAsyncData(key, async () => {
+    const data = await gql(operation as GqlOps, variables, requestOptions)
+
+    hasNextPage.value = hasMore(pagination, getPath(data, path), variables)
+
+    return data
+  }, options as Parameters<typeof useAsyncData>['2'])
+
+  let fetching: Promise<void> | undefined
+
+  const fetchMore = () => {
+    if (!hasNextPage.value || !asyncData.data.value) { return Promise.resolve() }
+
+    fetching ||= (async () => {
+      const current = getPath(asyncData.data.value, path)
+
+      const pageVariables = strategy === 'relay'
+        ? { ...variables, [cursorVariable]: current?.pageInfo?.endCursor }
+        : { ...variables, [offsetVariable]: (variables?.[offsetVariable] || 0) + (current?.length || 0) }
+
+      const data = await gql(operation as GqlOps, pageVariables, requestOptions)
+      const next = getPath(data, path)
+
+      hasNextPage.value = hasMore(pagination, next, pageVariables)
+      asyncData.data.value = setPath(data, path, mergePage(strategy, current, next))
+    })().finally(() => { fetching = undefined })
+
+    return fetching
+  }
+
+  const reset = () => asyncData.refresh()
+
+  const paginated = { fetchMore, hasNextPage, reset }
+
+  return Object.assign(asyncData.then(result => Object.assign(result, paginated)), asyncData, paginated)
+}
+
+/**
+ * Execute a mutation while tracking it's result, error and pending state.
+ *
+ * @param {string} operation Name of the mutation to be executed.
+ * @param {Object} options Request options, the `refetchOperations` to refresh once the mutation succeeds, and it's `optimisticResponse`.
+ *
+ * @example
+ * ```ts
+ * const { mutate, data, error, pending } = useGqlMutation('createComment', { refetchOperations: ['getComments'] })
+ *
+ * await mutate({ input: { body: 'Hello' } })
+ * ```
+ */
+export const useGqlMutation = <
+T extends GqlOps,
+P extends Parameters<GqlSdkFuncs[T]>['0'],
+R extends Awaited<ReturnType<GqlSdkFuncs[T]>>> (operation: T, options?: GqlRequestOptions & {
+  /**
+   * Operation names of the `useAsyncGql` calls to refresh once the mutation succeeds.
+   * */
+  refetchOperations?: GqlOps[]
+
+  /**
+   * Result written to the normalized cache of the client before the mutation is sent, the cached entities are restored once the mutation fails.
+   * */
+  optimisticResponse?: R
+}) => {
+  const nuxtApp = useNuxtApp()
+  const gql = useGql()
+  const queries = useGqlQueries()
+  const state = useGqlState()
+  const cacheState = useGqlCacheState()
+
+  const { refetchOperations, optimisticResponse, ...requestOptions } = options || {}
+
+  const data = ref(null) as Ref<R | null>
+  const error = ref<GqlError | null>(null)
+  const pending = ref(false)
+
+  /**
+   * Execute the mutation. Errors are captured by the `error` ref, hence `null` is returned when the mutation fails.
+   * GraphQL errors returned alongside partial data by the `all` error policy are captured as well, along with the partial data.
+   * */
+  const mutate = async (variables?: P, options?: GqlRequestOptions): Promise<R | null> => {
+    pending.value = true
+    error.value = null
+
+    const client = options?.client || requestOptions.client || getOperationClient(operation)
+    const cache = optimisticResponse && cacheState.value[client]
+    const entities = cache && JSON.parse(JSON.stringify(cache.entities))
+
+    if (cache) { writeCache(cache, undefined, optimisticResponse, state.value[client]?.cacheKeys) }
+
+    try {
+      const result = await gql(operation, variables, { ...requestOptions, ...options }) as R
+
+      data.value = result
+      error.value = partialErrors.get(result as object) || null
+
+      const keys = [...new Set(refetchOperations?.flatMap(op => queries[op] || []))]
+
+      if (keys.length) { await callWithNuxt(nuxtApp, () => refreshNuxtData(keys)) }
+
+      return result
+    } catch (err: GqlError | any) {
+      error.value = err
+
+      if (cache) { cacheState.value[client].entities = entities }
+
+      return null
+    } finally {
+      pending.value = false
+    }
+  }
+
+  return { mutate, data, error, pending }
+}
+
+/**
+ * Subscribe to a GraphQL subscription over WebSocket.
+ *
+ * @note Requires the `wsHost` option of the pertinent client. Subscriptions are only established client-side and are closed when the current component is unmounted.
+ *
+ * @param {Object} options
+ * @param {string} options.operation Name of the subscription to be executed.
+ * @param {string} options.variables Variables to be passed to the subscription.
+ * @param {Object} options.options Options of the subscription.
+ */
+export function useGqlSubscription<
+T extends GqlOps,
+P extends Parameters<GqlSdkFuncs[T]>['0'],
+R extends Awaited<ReturnType<GqlSdkFuncs[T]>>> (options: { operation: T, variables?: P, options?: Pick<GqlRequestOptions, 'client'> }): Ref<R | null>
+
+/**
+ * Subscribe to a GraphQL subscription over WebSocket.
+ *
+ * @note Requires the `wsHost` option of the pertinent client. Subscriptions are only established client-side and are closed when the current component is unmounted.
+ *
+ * @param {string} operation Name of the subscription to be executed.
+ * @param {string} variables Variables to be passed to the subscription.
+ * @param {Object} options Options of the subscription.
+ */
+export function useGqlSubscription<
+T extends GqlOps,
+P extends Parameters<GqlSdkFuncs[T]>['0'],
+R extends Awaited<ReturnType<GqlSdkFuncs[T]>>> (operation: T, variables?: P, options?: Pick<GqlRequestOptions, 'client'>): Ref<R | null>
+
+export function useGqlSubscription (...args: any[]) {
+  const operation = (typeof args?.[0] !== 'string' && 'operation' in args?.[0] ? args[0].operation : args[0]) ?? undefined
+  const variables = (typeof args?.[0] !== 'string' && 'variables' in args?.[0] ? args[0].variables : args[1]) ?? undefined
+  const options: Pick<GqlRequestOptions, 'client'> = (typeof args?.[0] !== 'string' && 'options' in args?.[0] ? args[0].options : args[2]) ?? {}
+
+  const data = ref<any>(null)
+
+  if (process.server) { return data }
+
+  const state = useGqlState()
+  const errState = useGqlErrorState()
+
+  const sdkClient = getOperationClient(operation, options.client)
+  const client = options.client || sdkClient
+
+  const { wsClient } = state.value?.[client] || {}
+
+  if (!wsClient) { throw new Error(`GraphQL client (${client}) is missing it's wsHost.`) }
+
+  const document = getSdkDocument(sdkClient, operation)
+  const persisted = GqlPersistedQueries?.[sdkClient]?.[document]
+
+  // persisted subscriptions are sent with their hash, the document of strict persisted queries is resolved by the GraphQL API
+  const payload = !persisted
+    ? { query: document }
+    : { operationName: persisted.operation, query: persisted.document || '', extensions: { persistedQuery: { version: 1, sha256Hash: document } } }
+
+  const unsubscribe = wsClient.subscribe({ ...payload, variables: serializeScalars(sdkClient, operation, variables) }, {
+    next: ({ data: result }) => { data.value = parseScalars(sdkClient, operation, result) },
+    error: (err: any) => {
+      errState.value = {
+        client,
+        operationType: 'subscription',
+        operationName: operation,
+        kind: Array.isArray(err) ? 'graphql' : 'network',
+        gqlErrors: Array.isArray(err) ? err : [{ message: err?.message || err?.reason || 'Subscription failed' }]
+      }
+
+      if (state.value.onError) {
+        state.value.onError(errState.value)
+      }
+    },
+    complete: () => {}
+  })
+
+  if (getCurrentScope()) { onScopeDispose(unsubscribe) }
+
+  return data
 }
@@ -0,0 +1,64 @@
+import type { Ref } from 'vue'
+import type { GqlError, GqlInspectorRecord } from '../../types'
+
+// records of the requests in flight, keyed by the signal passed to `GraphQLClient`
+const requests = new WeakMap<object, GqlInspectorRecord>()
+
+const MAX_RECORDS = 100
+
+const SENSITIVE_HEADER = /authorization|cookie|token|secret|key/i
+
+/**
+ * Record an operation, the returned record is updated once the operation is settled.
+ */
+export const recordOperation = (records: Ref<GqlInspectorRecord[]>, record: Pick<GqlInspectorRecord, 'client' | 'operation' | 'operationName' | 'operationType' | 'variables' | 'key'>) => {
+  const side = process.server ? 'server' : 'client'
+
+  records.value.push({
+    ...record,
+    id: (records.value[records.value.length - 1]?.id || 0) + 1,
+    side,
+    refetched: side === 'client' && records.value.some(r => r.side === 'server' && r.key === record.key),
+    status: 'pending',
+    startedAt: Date.now()
+  })
+
+  if (records.value.length > MAX_RECORDS) { records.value.splice(0, records.value.length - MAX_RECORDS) }
+
+  // the reactive record
+  return records.value[records.value.length - 1]
+}
+
+/**
+ * Settle a recorded operation with either it's result or error.
+ */
+export const settleOperation = (record: GqlInspectorRecord, result: { data?: any, error?: GqlError, source?: GqlInspectorRecord['source'] }) => {
+  record.status = result.error ? 'error' : 'success'
+  record.duration = Date.now() - record.startedAt
+  record.source = result.source || 'network'
+
+  if (result.error) {
+    record.error = result.error
+  } else {
+    record.size = JSON.stringify(result.data ?? null).length
+  }
+}
+
+/**
+ * Associate a request with a recorded operation, by the signal passed to `GraphQLClient`.
+ */
+export const inspectRequest = (signal: AbortSignal, record: GqlInspectorRecord) => requests.set(signal, record)
+
+/**
+ * Record the headers of a request, as applied by the `requestMiddleware` of `GraphQLClient`.
+ */
+export const inspectHeaders = (signal?: object | null, headers?: object) => {
+  const record = signal && requests.get(signal)
+
+  if (!record) { return }
+
+  const entries = typeof Headers !== 'undefined' ? [...new Headers(headers as HeadersInit).entries()] : Object.entries(headers || {})
+
+  // records of the server are sent to the browser with the payload
+  record.headers = Object.fromEntries(entries.map(([name, value]) => [name, process.server && SENSITIVE_HEADER.test(name) ? '[redacted]' : value]))
+}
@@ -0,0 +1,90 @@
+import { h, ref, computed, defineComponent } from 'vue'
+import type { PropType, Ref } from 'vue'
+import type { GqlInspectorRecord } from '../../types'
+
+const styles = {
+  toggle: 'position:fixed;right:12px;bottom:12px;z-index:2147483647;padding:6px 10px;border:0;border-radius:6px;background:#e535ab;color:#fff;font:600 12px monospace;cursor:pointer',
+  panel: 'position:fixed;right:12px;bottom:48px;z-index:2147483647;display:flex;width:min(960px,calc(100vw - 24px));height:min(480px,calc(100vh - 72px));border-radius:6px;background:#1e1e1e;color:#ddd;font:12px monospace;box-shadow:0 4px 24px rgba(0,0,0,.4);overflow:hidden',
+  list: 'flex:1;margin:0;padding:0;list-style:none;overflow:auto;border-right:1px solid #333',
+  row: 'display:flex;gap:8px;padding:6px 8px;border-bottom:1px solid #2a2a2a;cursor:pointer;white-space:nowrap',
+  detail: 'flex:1;padding:8px;overflow:auto',
+  pre: 'margin:4px 0 12px;padding:6px;background:#111;white-space:pre-wrap;word-break:break-all',
+  textarea: 'box-sizing:border-box;width:100%;height:120px;margin:4px 0;padding:6px;border:1px solid #333;background:#111;color:#ddd;font:inherit'
+}
+
+const statusColor = { pending: '#999', success: '#4caf50', error: '#f44336' }
+
+const origin = (record: GqlInspectorRecord) => record.side === 'server'
+  ? 'ssr · hydrated'
+  : record.refetched ? 'client · refetched' : 'client'
+
+export default defineComponent({
+  name: 'GqlInspector',
+  props: {
+    records: { type: Object as PropType<Ref<GqlInspectorRecord[]>>, required: true },
+    rerun: { type: Function as PropType<(record: GqlInspectorRecord, variables?: Record<string, any>) => Promise<any>>, required: true }
+  },
+  setup (props) {
+    const open = ref(false)
+    const selectedId = ref<number>()
+    const variables = ref('')
+    const invalid = ref(false)
+
+    const records = computed(() => [...props.records.value].reverse())
+    const selected = computed(() => props.records.value.find(r => r.id === selectedId.value))
+
+    const select = (record: GqlInspectorRecord) => {
+      selectedId.value = record.id
+      variables.value = JSON.stringify(record.variables ?? {}, null, 2)
+      invalid.value = false
+    }
+
+    const rerun = () => {
+      try {
+        const vars = JSON.parse(variables.value || '{}')
+        invalid.value = false
+
+        props.rerun(selected.value!, vars)
+      } catch {
+        invalid.value = true
+      }
+    }
+
+    const section = (title: string, value?: any) => value !== undefined && [
+      h('strong', title),
+      h('pre', { style: styles.pre }, typeof value === 'string' ? value : JSON.stringify(value, null, 2))
+    ]
+
+    return () => [
+      h('button', { style: styles.toggle, onClick: () => { open.value = !open.value } }, `GQL (${props.records.value.length})`),
+      open.value && h('div', { style: styles.panel }, [
+        h('ul', { style: styles.list }, records.value.map(record => h('li', {
+          key: record.id,
+          style: `${styles.row};${record.id === selectedId.value ? 'background:#2c2c2c' : ''}`,
+          onClick: () => select(record)
+        }, [
+          h('span', { style: `color:${statusColor[record.status]}` }, '●'),
+          h('span', { style: 'flex:1;overflow:hidden;text-overflow:ellipsis' }, `${record.operationName || record.operation}`),
+          h('span', { style: 'color:#999' }, `${record.client} · ${origin(record)}`),
+          h('span', { style: 'width:56px;text-align:right' }, record.duration !== undefined ? `${record.duration}ms` : '…'),
+          h('span', { style: 'width:64px;text-align:right' }, record.size !== undefined ? `${record.size}B` : record.source === 'cache' ? 'cache' : '')
+        ]))),
+        h('div', { style: styles.detail }, !selected.value
+          ? 'Select an operation.'
+          : [
+              h('strong', `${selected.value.operationType} ${selected.value.operationName || selected.value.operation}`),
+              h('p', { style: 'color:#999' }, `${selected.value.client} · ${origin(selected.value)} · ${selected.value.source || 'network'} · ${new Date(selected.value.startedAt).toLocaleTimeString()}`),
+              h('strong', 'Variables'),
+              h('textarea', {
+                style: `${styles.textarea};${invalid.value ? 'border-color:#f44336' : ''}`,
+                value: variables.value,
+                onInput: (e: Event) => { variables.value = (e.target as HTMLTextAreaElement).value }
+              }),
+              h('button', { style: `${styles.toggle};position:static;margin-bottom:12px`, onClick: rerun }, 'Re-run'),
+              section('Headers', selected.value.headers),
+              section('Error', selected.value.error)
+            ])
+      ])
+    ]
+  }
+})
@@ -0,0 +1,23 @@
+import { createApp } from 'vue'
+import type { GqlInspectorRecord } from '../../types'
+import { useGql } from '../composables'
+import GqlInspector from './panel'
+import { useState, defineNuxtPlugin } from '#imports'
+import type { GqlOps } from '#gql'
+
+export default defineNuxtPlugin((nuxtApp) => {
+  const records = useState<GqlInspectorRecord[]>('_gqlInspector', () => [])
+  const gql = useGql()
+
+  // re-run an operation with edited variables, bypassing the cache
+  const rerun = (record: GqlInspectorRecord, variables?: Record<string, any>) =>
+    gql(record.operation as GqlOps, variables, { fetchPolicy: 'network-only', client: record.client }).catch(() => {})
+
+  nuxtApp.hook('app:mounted', () => {
+    const el = document.createElement('div')
+    el.id = 'gql-inspector'
+    document.body.appendChild(el)
+
+    createApp(GqlInspector, { records, rerun }).mount(el)
+  })
+})
@@ -0,0 +1,63 @@
+import { buildSchema, graphql } from 'graphql'
+import type { GraphQLSchema } from 'graphql'
+import { addMocksToSchema } from '@graphql-tools/mock'
+import type { GqlMockOptions } from '../types'
+
+type GqlRequest = { query: string, variables?: Record<string, any>, operationName?: string }
+
+// set the files of a multipart request at their paths within the operations (https://github.com/jaydenseric/graphql-multipart-request-spec)
+const readMultipart = (form: FormData) => {
+  const operations = JSON.parse(form.get('operations') as string)
+  const map: Record<string, string[]> = JSON.parse((form.get('map') as string) || '{}')
+
+  for (const [field, paths] of Object.entries(map)) {
+    for (const path of paths) {
+      const keys = path.split('.')
+      const last = keys.pop()!
+      const target = keys.reduce((acc, k) => acc?.[k], operations)
+
+      if (target) { target[last] = form.get(field) }
+    }
+  }
+
+  return operations
+}
+
+const readRequest = (url: string, init: RequestInit): GqlRequest | GqlRequest[] => {
+  if (typeof FormData !== 'undefined' && init.body instanceof FormData) { return readMultipart(init.body) }
+
+  if (typeof init.body === 'string') { return JSON.parse(init.body) }
+
+  const params = Object.fromEntries(new URLSearchParams(url.split('?')[1]))
+
+  return { ...params, variables: params.variables && JSON.parse(params.variables) } as GqlRequest
+}
+
+/**
+ * Create a `fetch` implementation for `GraphQLClient` which executes operations in-process, against a schema populated with mocked values.
+ *
+ * The schema is only built once the first operation is executed. Resolvers receive the headers of the request as `context.headers`.
+ *
+ * @param {string} typeDefs GraphQL Schema (SDL) of the client.
+ * @param {object} options Mocks and resolver overrides, as exported by `gql/mocks/<client>.ts`.
+ */
+export const mockFetch = (typeDefs: string, options: GqlMockOptions = {}) => {
+  let schema: GraphQLSchema | undefined
+
+  const execute = ({ query, variables, operationName }: GqlRequest, headers: Headers) => graphql({
+    schema: (schema ||= addMocksToSchema({ schema: buildSchema(typeDefs), ...options })),
+    source: query,
+    variableValues: variables,
+    operationName,
+    contextValue: { headers }
+  })
+
+  return async (url: string, init: RequestInit) => {
+    const request = readRequest(url, init)
+    const headers = new Headers(init.headers)
+
+    const result = Array.isArray(request) ? await Promise.all(request.map(r => execute(r, headers))) : await execute(request, headers)
+
+    return new Response(JSON.stringify(result), { status: 200, headers: { 'Content-Type': 'application/json' } })
+  }
+}
@@ -0,0 +1,46 @@
+import type { GqlPaginationOpts } from '../types'
+
+/**
+ * Retrieve the value at a dot notated path, e.g. `user.posts`.
+ */
+export const getPath = (data: any, path: string): any => path.split('.').reduce((acc, k) => acc?.[k], data)
+
+/**
+ * Set the value at a dot notated path, objects along the path are copied rather than mutated.
+ */
+export const setPath = (data: any, path: string, value: any): any => {
+  const [key, ...rest] = path.split('.')
+
+  return { ...data, [key]: rest.length ? setPath(data?.[key], rest.join('.'), value) : value }
+}
+
+/**
+ * Merge the next page into the current page.
+ *
+ * - `relay`: The `edges` and `nodes` of the connections are concatenated, and `pageInfo` is replaced.
+ * - `offset`: The lists are concatenated.
+ */
+export const mergePage = (strategy: GqlPaginationOpts['strategy'], current: any, next: any) => {
+  if (strategy === 'offset') { return [...(current || []), ...(next || [])] }
+
+  return {
+    ...next,
+    ...((current?.edges || next?.edges) && { edges: [...(current?.edges || []), ...(next?.edges || [])] }),
+    ...((current?.nodes || next?.nodes) && { nodes: [...(current?.nodes || []), ...(next?.nodes || [])] })
+  }
+}
+
+/**
+ * Determine whether a subsequent page is available.
+ *
+ * @param {object} options Pagination options.
+ * @param {any} page The connection (`relay`) or list (`offset`) of the latest page.
+ * @param {object} variables Variables of the operation.
+ */
+export const hasMore = ({ strategy, limitVariable = 'limit' }: GqlPaginationOpts, page: any, variables?: Record<string, any>) => {
+  if (strategy === 'relay') { return !!page?.pageInfo?.hasNextPage }
+
+  const limit = variables?.[limitVariable]
+
+  return Array.isArray(page) && (typeof limit === 'number' ? page.length >= limit : page.length > 0)
+}
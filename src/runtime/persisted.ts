@@ -0,0 +1,92 @@
+import type { GqlPersistedQuery } from '../types'
+
+const isNotFound = (error: any) => error?.extensions?.code === 'PERSISTED_QUERY_NOT_FOUND' || error?.message === 'PersistedQueryNotFound'
+
+/**
+ * Create a `fetch` implementation for `GraphQLClient` which sends operations as Automatic Persisted Queries.
+ *
+ * Requests are made by the persisted sdk, which passes the operation's hash in place of it's document.
+ * Queries are sent as GET requests, and the full document is sent when the GraphQL API doesn't recognize the hash.
+ *
+ * Multipart requests (file uploads) are sent with the operation's document, unless it was stripped in `strict` mode.
+ *
+ * @param {object} queries Persisted queries of the client, keyed by hash.
+ * @param {Function} fetcher The `fetch` implementation used to send requests.
+ */
+export const persistedFetch = (queries: Record<string, GqlPersistedQuery>, fetcher: (url: string, init: RequestInit) => Promise<Response> = fetch) => async (url: string, init: RequestInit) => {
+  const [endpoint, search] = url.split('?')
+
+  if (typeof FormData !== 'undefined' && init.body instanceof FormData) {
+    const operations = JSON.parse(init.body.get('operations') as string)
+    const persisted = queries[operations?.query]
+
+    if (persisted) {
+      const { query: hash, ...operation } = operations
+
+      init.body.set('operations', JSON.stringify({
+        ...operation,
+        operationName: persisted.operation,
+        extensions: { persistedQuery: { version: 1, sha256Hash: hash } },
+        ...(persisted.document && { query: persisted.document })
+      }))
+    }
+
+    return fetcher(url, init)
+  }
+
+  const body = init.method === 'GET'
+    ? Object.fromEntries(new URLSearchParams(search))
+    : typeof init.body === 'string' ? JSON.parse(init.body) : undefined
+
+  // batched operations are sent with their documents, unless they were stripped in `strict` mode
+  if (Array.isArray(body)) {
+    return fetcher(url, {
+      ...init,
+      body: JSON.stringify(body.map(({ query: hash, ...operation }) => !queries[hash]
+        ? { query: hash, ...operation }
+        : {
+            ...operation,
+            operationName: queries[hash].operation,
+            extensions: { persistedQuery: { version: 1, sha256Hash: hash } },
+            ...(queries[hash].document && { query: queries[hash].document })
+          }))
+    })
+  }
+
+  const hash = body?.query
+  const persisted = hash && queries[hash]
+
+  if (!persisted) { return fetcher(url, init) }
+
+  const variables = typeof body.variables === 'string' ? JSON.parse(body.variables) : body.variables
+  const extensions = { persistedQuery: { version: 1, sha256Hash: hash } }
+
+  const { 'Content-Type': _contentType, ...headers } = (init.headers || {}) as Record<string, string>
+
+  const send = (document?: string) => {
+    if (persisted.type === 'query' && !document) {
+      const params = new URLSearchParams({
+        operationName: persisted.operation,
+        ...(variables && { variables: JSON.stringify(variables) }),
+        extensions: JSON.stringify(extensions)
+      })
+
+      return fetcher(`${endpoint}?${params}`, { ...init, method: 'GET', headers, body: undefined })
+    }
+
+    return fetcher(endpoint, {
+      ...init,
+      method: 'POST',
+      headers: { ...headers, 'Content-Type': 'application/json' },
+      body: JSON.stringify({ operationName: persisted.operation, variables, extensions, ...(document && { query: document }) })
+    })
+  }
+
+  const response = await send()
+
+  if (!persisted.document) { return response }
+
+  const result = await response.clone().json().catch(() => undefined)
+
+  return result?.errors?.some(isNotFound) ? send(persisted.document) : response
+}
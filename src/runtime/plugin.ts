@@ -1,8 +1,17 @@
 import { defu } from 'defu'
 import type { Ref } from 'vue'
+import { createClient } from 'graphql-ws'
 import { GraphQLClient } from 'graphql-request'
-import type { GqlState, GqlConfig } from '../types'
+import type { PatchedRequestInit } from 'graphql-request/dist/types'
+import type { GqlState, GqlConfig, GqlError } from '../types'
+import { createBatch } from './batch'
+import { keyFields } from './cache'
+import { persistedFetch } from './persisted'
+import { inspectHeaders } from './inspector'
 import { ref, useCookie, useNuxtApp, defineNuxtPlugin, useRuntimeConfig, useRequestHeaders } from '#imports'
+// eslint-disable-next-line import/named
+import { GqlPersistedQueries } from '#gql'
+import { GqlMocks } from '#gql/mocks'
 import type { GqlClients } from '#gql'
 
 export default defineNuxtPlugin((nuxtApp) => {
@@ -18,72 +27,102 @@ export default defineNuxtPlugin((nuxtApp) => {
     const cookie = (process.server && useRequestHeaders(['cookie'])?.cookie) || undefined
 
     for (const [name, v] of Object.entries(clients || {})) {
-      const host = (process.client && v?.clientHost) || v.host
+      const proxyHost = v?.proxy && `${config.app.baseURL.replace(/\/$/, '')}/api/_gql/${name}`
+
+      const host = (process.client && (proxyHost || v?.clientHost)) || v.host
 
       const proxyCookie = v?.proxyCookies && !!cookie
 
-      const serverHeaders = (process.server && (typeof v?.headers?.serverOnly === 'object' && v?.headers?.serverOnly)) || undefined
-      if (v?.headers?.serverOnly) { delete v.headers.serverOnly }
+      // the runtime config is shared between requests, hence `serverOnly` headers are omitted from a copy
+      const { serverOnly, ...headers } = (v?.headers || {}) as Record<string, string> & { serverOnly?: Record<string, string> }
+      const serverHeaders = (process.server && typeof serverOnly === 'object' && serverOnly) || undefined
 
       const opts = {
         ...((proxyCookie || v?.token?.value || v?.headers) && {
           headers: {
-            ...(v?.headers && { ...(v.headers as Record<string, string>), ...serverHeaders }),
+            ...(v?.headers && { ...headers, ...serverHeaders }),
             ...(proxyCookie && { cookie })
           }
         })
       }
 
-      nuxtApp._gqlState.value[name] = {
-        options: opts,
-        instance: new GraphQLClient(host!, {
-          ...(v?.preferGETQueries && {
-            method: 'GET',
-            jsonSerializer: { parse: JSON.parse, stringify: JSON.stringify }
-          }),
-          requestMiddleware: async (req) => {
-            const token = ref<string>()
-            await nuxtApp.callHook('gql:auth:init', { token, client: name as GqlClients })
-
-            const reqOpts = defu(nuxtApp._gqlState.value?.[name]?.options || {}, { headers: {} })
-
-            token.value ??= reqOpts?.token?.value
-
-            if (token.value === undefined && typeof v.tokenStorage === 'object') {
-              if (v.tokenStorage?.mode === 'cookie') {
-                if (process.client) {
-                  token.value = useCookie(v.tokenStorage.name!).value
-                } else if (cookie) {
-                  const cookieName = `${v.tokenStorage.name}=`
-                  token.value = cookie.split(';').find(c => c.trim().startsWith(cookieName))?.split('=')?.[1]
-                }
-              } else if (process.client && v.tokenStorage?.mode === 'localStorage') {
-                const storedToken = localStorage.getItem(v.tokenStorage.name!)
-
-                if (storedToken) { token.value = storedToken }
-              }
+      const getRequestOptions = async () => {
+        const token = ref<string>()
+        await nuxtApp.callHook('gql:auth:init', { token, client: name as GqlClients })
+
+        const reqOpts = defu(nuxtApp._gqlState.value?.[name]?.options || {}, { headers: {} })
+
+        token.value ??= reqOpts?.token?.value
+
+        if (token.value === undefined && typeof v.tokenStorage === 'object') {
+          if (v.tokenStorage?.mode === 'cookie') {
+            if (process.client) {
+              token.value = useCookie(v.tokenStorage.name!).value
+            } else if (cookie) {
+              const cookieName = `${v.tokenStorage.name}=`
+              token.value = cookie.split(';').find(c => c.trim().startsWith(cookieName))?.split('=')?.[1]
             }
+          } else if (process.client && v.tokenStorage?.mode === 'localStorage') {
+            const storedToken = localStorage.getItem(v.tokenStorage.name!)
 
-            if (token.value === undefined) { token.value ??= v?.token?.value }
+            if (storedToken) { token.value = storedToken }
+          }
+        }
 
-            if (token.value) {
-              token.value = token.value.trim()
+        if (token.value === undefined) { token.value ??= v?.token?.value }
 
-              const tokenName = token.value === reqOpts?.token?.value ? reqOpts?.token?.name || v?.token?.name : v?.token?.name
-              const tokenType = token.value === reqOpts?.token?.value ? reqOpts?.token?.type === null ? null : reqOpts?.token?.type || v?.token?.type : v?.token?.type
+        if (token.value) {
+          token.value = token.value.trim()
 
-              const authScheme = !!token.value?.match(/^[a-zA-Z]+\s/)?.[0]
+          const tokenName = token.value === reqOpts?.token?.value ? reqOpts?.token?.name || v?.token?.name : v?.token?.name
+          const tokenType = token.value === reqOpts?.token?.value ? reqOpts?.token?.type === null ? null : reqOpts?.token?.type || v?.token?.type : v?.token?.type
 
-              if (authScheme) {
-                reqOpts.headers[tokenName] = token.value
-              } else {
-                reqOpts.headers[tokenName] = !tokenType ? token.value : `${tokenType} ${token.value}`
-              }
-            }
+          const authScheme = !!token.value?.match(/^[a-zA-Z]+\s/)?.[0]
 
-            if (reqOpts?.token) { delete reqOpts.token }
-            return defu(req, reqOpts)
+          if (authScheme) {
+            reqOpts.headers[tokenName] = token.value
+          } else {
+            reqOpts.headers[tokenName] = !tokenType ? token.value : `${tokenType} ${token.value}`
           }
+        }
+
+        if (reqOpts?.token) { delete reqOpts.token }
+        return reqOpts
+      }
+
+      const requestInit: PatchedRequestInit = {
+        ...(v?.preferGETQueries && {
+          method: 'GET',
+          jsonSerializer: { parse: JSON.parse, stringify: JSON.stringify }
+        }),
+        ...(GqlPersistedQueries?.[name] && { fetch: persistedFetch(GqlPersistedQueries[name]) }),
+        ...(GqlMocks?.[name] && { fetch: GqlMocks[name] }),
+        requestMiddleware: async (req) => {
+          const request = defu(req, await getRequestOptions())
+
+          if (process.dev) { inspectHeaders(req.signal, request.headers) }
+
+          return request
+        }
+      }
+
+      const instance = new GraphQLClient(host!, requestInit)
+
+      nuxtApp._gqlState.value[name] = {
+        options: opts,
+        instance,
+        host,
+        requestInit,
+        pending: {},
+        ...(v?.batch && { batch: createBatch(instance, typeof v.batch === 'object' ? v.batch : undefined) }),
+        ...(typeof v?.cache === 'object' && {
+          cacheKeys: Object.entries(v.cache.keys || {}).reduce((acc, [type, fields]) => ({ ...acc, [type]: keyFields(fields) }), {})
+        }),
+        ...(process.client && v?.wsHost && {
+          wsClient: createClient({
+            url: v.wsHost,
+            connectionParams: async () => (await getRequestOptions()).headers
+          })
         })
       }
     }
@@ -96,5 +135,11 @@ declare module '#app' {
      * `gql:auth:init` hook specifies how the authentication token is retrieved.
      */
     'gql:auth:init': (params: { client: GqlClients, token: Ref<string | undefined> }) => void
+
+    /**
+     * `gql:auth:refresh` hook is called when a request fails due to an invalid or expired token.
+     * The new token assigned to `token` is stored like tokens set via `useGqlToken`, and the failed request is replayed once.
+     */
+    'gql:auth:refresh': (params: { client: GqlClients, token: Ref<string | undefined>, error: GqlError }) => void
   }
 }
@@ -0,0 +1,76 @@
+import type { GqlRetryOpts, TokenRefreshOpts } from '../types'
+
+const retryDefaults: Required<GqlRetryOpts> = {
+  count: 3,
+  delay: 300,
+  backoff: 'exponential',
+  statusCodes: [408, 429, 500, 502, 503, 504],
+  errorTypes: ['network', 'timeout'],
+  mutations: false
+}
+
+/**
+ * Resolve the retry options of a request, options provided per call take precedence over the client's options.
+ */
+export const resolveRetry = (...options: (boolean | number | GqlRetryOpts | undefined)[]): Required<GqlRetryOpts> | undefined => {
+  const option = options.find(o => o !== undefined)
+
+  if (!option) { return }
+
+  return { ...retryDefaults, ...(typeof option === 'number' ? { count: option } : typeof option === 'object' && option) }
+}
+
+/**
+ * Determine whether a failed attempt should be retried.
+ *
+ * @param {object} retry Retry options of the request.
+ * @param {object} failure The failed attempt.
+ */
+export const shouldRetry = (retry: Required<GqlRetryOpts> | undefined, { attempt, operationType, timedOut, error }: { attempt: number, operationType?: string, timedOut?: boolean, error: any }) => {
+  if (!retry || attempt > retry.count) { return false }
+
+  if (operationType !== 'query' && !retry.mutations) { return false }
+
+  if (timedOut) { return retry.errorTypes.includes('timeout') }
+
+  const status = error?.response?.status
+
+  if (!status) { return error?.name !== 'AbortError' && retry.errorTypes.includes('network') }
+
+  return retry.statusCodes.includes(status) || (!!error?.response?.errors?.length && retry.errorTypes.includes('graphql'))
+}
+
+/**
+ * Determine whether a request failed due to an invalid or expired token.
+ *
+ * @param {object} signals The status codes and error codes signaling an authentication failure.
+ * @param {object} error The error of the failed request.
+ */
+export const isAuthFailure = ({ statusCodes = [], errorCodes = [] }: TokenRefreshOpts, error: any) => {
+  if (statusCodes.includes(error?.response?.status)) { return true }
+
+  return !!error?.response?.errors?.some((e: any) => errorCodes.includes(e?.extensions?.code))
+}
+
+/**
+ * The delay (in milliseconds) before a given retry attempt.
+ */
+export const retryDelay = ({ delay, backoff }: Required<GqlRetryOpts>, attempt: number) => {
+  if (backoff === 'fixed') { return delay }
+
+  return backoff === 'linear' ? delay * attempt : delay * 2 ** (attempt - 1)
+}
+
+/**
+ * Reject a pending request once the signal is aborted, for requests which can't be aborted themselves.
+ */
+export const abortable = <T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> => !signal
+  ? promise
+  : new Promise((resolve, reject) => {
+    const abort = () => reject(Object.assign(new Error('The operation was aborted.'), { name: 'AbortError' }))
+
+    if (signal.aborted) { return abort() }
+
+    signal.addEventListener('abort', abort)
+    promise.then(resolve, reject)
+  })
@@ -0,0 +1,40 @@
+import type { GqlScalarMap, GqlScalarOptions, GqlScalarTree } from '../types'
+
+/**
+ * Apply the `parse` or `serialize` functions of custom scalars to a value, following the paths of the scalars within it.
+ * The value isn't mutated, as it may be cached.
+ *
+ * @param {any} value Result or variables of an operation.
+ * @param {GqlScalarTree} tree Paths of the custom scalars within the value.
+ * @param {GqlScalarOptions} scalars Functions of the custom scalars.
+ * @param {string} fn Function to apply.
+ */
+export const transformScalars = (value: any, tree: GqlScalarTree | string | undefined, scalars: GqlScalarOptions, fn: 'parse' | 'serialize'): any => {
+  if (value == null || !tree) { return value }
+
+  if (Array.isArray(value)) { return value.map(v => transformScalars(v, tree, scalars, fn)) }
+
+  if (typeof tree === 'string') { return scalars[tree]?.[fn] ? scalars[tree][fn]!(value) : value }
+
+  if (typeof value !== 'object') { return value }
+
+  const result = { ...value }
+
+  for (const [key, subtree] of Object.entries(tree)) {
+    if (key in result) { result[key] = transformScalars(result[key], subtree, scalars, fn) }
+  }
+
+  return result
+}
+
+/**
+ * Parse the result, or serialize the variables of an operation with the custom scalars of it's client.
+ *
+ * @param {object} clientScalars Functions of the client's custom scalars, and their paths within each operation.
+ * @param {string} operation Name of the operation.
+ * @param {any} value Result or variables of the operation.
+ * @param {string} fn Function to apply.
+ */
+export const transformOperationScalars = (clientScalars: { scalars: GqlScalarOptions, operations: GqlScalarMap } | undefined, operation: string, value: any, fn: 'parse' | 'serialize'): any => !clientScalars
+  ? value
+  : transformScalars(value, clientScalars.operations[operation]?.[fn === 'parse' ? 'result' : 'variables'], clientScalars.scalars, fn)
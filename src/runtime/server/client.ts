@@ -0,0 +1,129 @@
+import { defu } from 'defu'
+import { GraphQLClient } from 'graphql-request'
+import type { PatchedRequestInit } from 'graphql-request/dist/types'
+import { getRequestHeader } from 'h3'
+import type { H3Event } from 'h3'
+import type { GqlConfig, GqlRequestOptions, GqlServerOptions } from '../../types'
+import { transformOperationScalars } from '../scalars'
+import { persistedFetch } from '../persisted'
+import { resolveRetry, retryDelay, shouldRetry } from '../retry'
+import { getOperationClient as operationClient } from '../utils'
+import { clientHeaders } from './utils'
+import { useRuntimeConfig } from '#imports'
+import { GqlServerSdks, GqClientOps, GqlPersistedQueries } from '#gql-server/sdks'
+import { GqlScalars } from '#gql-server/scalars'
+import { GqlMocks } from '#gql-server/mocks'
+import type { GqlOps, GqlClients, GqlSdkFuncs } from '#gql'
+
+type GqlServerRequestOptions = Pick<GqlRequestOptions, 'client' | 'headers' | 'signal' | 'retry' | 'timeout' | 'errorPolicy'>
+
+const getOperationClient = (operation: string, client?: string): GqlClients => operationClient(GqClientOps, operation, c => `useGqlServer(event, { client: '${c}' })`, client) as GqlClients
+
+/**
+ * Execute GraphQL operations within Nitro routes.
+ *
+ * Requests are sent with the headers and token of the client, including `serverOnly` headers and private tokens.
+ * Mocks, persisted queries, retries and timeouts of the client are applied as within the app.
+ *
+ * @param {H3Event} event The incoming request, required to forward it's cookies or authorization header.
+ * @param {GqlServerOptions} options Options applied to every operation.
+ */
+export function useGqlServer (event?: H3Event, options: GqlServerOptions = {}): (<
+  T extends GqlOps,
+  R extends ReturnType<GqlSdkFuncs[T]>,
+  P extends Parameters<GqlSdkFuncs[T]>['0'],
+  > (args: { operation: T, variables?: P, options?: GqlServerRequestOptions }) => R) &
+  (<
+    T extends GqlOps,
+    R extends ReturnType<GqlSdkFuncs[T]>,
+    P extends Parameters<GqlSdkFuncs[T]>['0'],
+    > (operation: T, variables?: P, options?: GqlServerRequestOptions) => R) {
+  const config = useRuntimeConfig()
+  const { clients }: GqlConfig = defu(config?.['graphql-client'], config?.public?.['graphql-client'])
+
+  return (...args: any[]): any => {
+    const operation = (typeof args?.[0] !== 'string' && 'operation' in args?.[0] ? args[0].operation : args[0]) ?? undefined
+    const variables = (typeof args?.[0] !== 'string' && 'variables' in args?.[0] ? args[0].variables : args[1]) ?? undefined
+    const reqOpts: GqlServerRequestOptions = (typeof args?.[0] !== 'string' && 'options' in args?.[0] ? args[0].options : args[2]) ?? {}
+
+    const scope = reqOpts.client || options.client
+
+    const sdkClient = getOperationClient(operation, scope)
+    const client = scope || sdkClient
+
+    const conf = clients?.[client]
+
+    if (!conf || !GqlServerSdks[sdkClient]) { throw new Error(`[nuxt-graphql-client] Invalid GraphQL client (${client}).`) }
+
+    const tokenName = conf.token?.name || 'Authorization'
+    const cookie = options.forwardCookies && event && getRequestHeader(event, 'cookie')
+    const authorization = options.forwardAuthorization && event && getRequestHeader(event, tokenName)
+
+    const headers = clientHeaders(conf, {
+      ...(cookie && { cookie }),
+      ...(authorization && { [tokenName]: authorization }),
+      ...options.headers,
+      ...reqOpts.headers
+    })
+
+    const retry = resolveRetry(reqOpts.retry, options.retry, conf.retry)
+    const timeout = reqOpts.timeout ?? options.timeout ?? conf.timeout
+    const errorPolicy = reqOpts.errorPolicy || options.errorPolicy || conf.errorPolicy || 'none'
+
+    const instance = new GraphQLClient(conf.host, {
+      headers,
+      ...(conf.preferGETQueries && {
+        method: 'GET',
+        jsonSerializer: { parse: JSON.parse, stringify: JSON.stringify }
+      }),
+      ...(GqlPersistedQueries?.[client] && { fetch: persistedFetch(GqlPersistedQueries[client]) }),
+      ...(GqlMocks?.[client] && { fetch: GqlMocks[client] })
+    })
+
+    let signal: AbortSignal | undefined
+
+    const request = {
+      request: (document: string, variables?: object, requestHeaders?: HeadersInit) => instance.request({ document, variables, requestHeaders, signal: signal as PatchedRequestInit['signal'] })
+    } as unknown as GraphQLClient
+
+    const sdk = GqlServerSdks[sdkClient](request, (action, _operationName, operationType) => {
+      const execute = async (attempt = 1): Promise<any> => {
+        const controller = timeout || reqOpts.signal ? new AbortController() : undefined
+        const timer = timeout && controller && setTimeout(() => controller.abort(), timeout)
+        const abort = () => controller?.abort()
+
+        signal = controller?.signal
+
+        if (reqOpts.signal?.aborted) { abort() } else { reqOpts.signal?.addEventListener('abort', abort) }
+
+        try {
+          return await action()
+        } catch (err: any) {
+          if (reqOpts.signal?.aborted) { throw err }
+
+          if (shouldRetry(retry, { attempt, operationType, timedOut: !!controller?.signal.aborted, error: err })) {
+            await new Promise(resolve => setTimeout(resolve, retryDelay(retry!, attempt)))
+
+            return execute(attempt + 1)
+          }
+
+          // Nitro routes have no error state, hence partial data is resolved by both the `all` and `ignore` policies
+          if (errorPolicy !== 'none' && err?.response?.errors?.length && err.response.data != null) { return err.response.data }
+
+          throw err
+        } finally {
+          clearTimeout(timer)
+          reqOpts.signal?.removeEventListener('abort', abort)
+        }
+      }
+
+      return execute()
+    })
+
+    // custom scalars are serialized in variables, and parsed in results
+    const scalars = GqlScalars?.[sdkClient]
+
+    return sdk[operation](transformOperationScalars(scalars, operation, variables, 'serialize'))
+      .then((data: any) => transformOperationScalars(scalars, operation, data, 'parse'))
+  }
+}
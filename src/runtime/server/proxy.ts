@@ -0,0 +1,90 @@
+import { defu } from 'defu'
+import { parse } from 'graphql'
+import { createError, defineEventHandler, getMethod, getQuery, getRequestHeader, getRequestHeaders, readBody, readRawBody } from 'h3'
+import type { GqlConfig } from '../../types'
+import { clientHeaders, definitionSignature } from './utils'
+import { useRuntimeConfig } from '#imports'
+import allowlists from '#gql-server/proxy'
+
+// headers that shouldn't be forwarded to the GraphQL API
+const omitHeaders = ['host', 'connection', 'content-length', 'accept-encoding', 'cookie']
+
+// retrieve the `operations` field of multipart requests (https://github.com/jaydenseric/graphql-multipart-request-spec)
+const readOperations = (body: Buffer, contentType: string) => {
+  const boundary = contentType.match(/boundary=(?:"([^"]+)"|([^;]+))/i)?.slice(1).find(Boolean)
+
+  const part = boundary && body.toString('utf8').split(`--${boundary}`)
+    .find(p => /name="operations"/i.test(p.slice(0, p.indexOf('\r\n\r\n'))))
+
+  if (!part) { return }
+
+  try {
+    return JSON.parse(part.slice(part.indexOf('\r\n\r\n') + 4).replace(/\r\n$/, ''))
+  } catch {}
+}
+
+// each `Set-Cookie` header of the response, as joined values break cookies with an `Expires` attribute
+const getSetCookies = (headers: Headers & { getSetCookie?: () => string[], raw?: () => Record<string, string[]> }): string[] => {
+  if (typeof headers.getSetCookie === 'function') { return headers.getSetCookie() }
+
+  if (typeof headers.raw === 'function') { return headers.raw()['set-cookie'] || [] }
+
+  return headers.get('set-cookie')?.split(/,\s*(?=[^;,=\s]+=)/) || []
+}
+
+const isAllowed = (body: Record<string, any>, allowlist: { definitions: string[], hashes: string[] }) => {
+  if (!body?.query) {
+    const extensions = typeof body?.extensions === 'string' ? JSON.parse(body.extensions) : body?.extensions
+
+    return allowlist.hashes.includes(extensions?.persistedQuery?.sha256Hash)
+  }
+
+  try {
+    return parse(body.query).definitions.every(d => allowlist.definitions.includes(definitionSignature(d)))
+  } catch {
+    return false
+  }
+}
+
+export default defineEventHandler(async (event) => {
+  const client: string = event.context.params?.client
+
+  const config = useRuntimeConfig()
+  const { clients }: GqlConfig = defu(config?.['graphql-client'], config?.public?.['graphql-client'])
+
+  const conf = clients?.[client]
+
+  if (!conf?.proxy) { throw createError({ statusCode: 404, statusMessage: `GraphQL client (${client}) is not proxied.` }) }
+
+  const method = getMethod(event)
+  const contentType = getRequestHeader(event, 'content-type') || ''
+  const multipart = contentType.includes('multipart/form-data')
+
+  const body = method === 'GET' ? getQuery(event) : multipart ? await readRawBody(event, false) : await readBody(event)
+
+  const allowlist = allowlists?.[client]
+  const operations = [multipart ? readOperations(body as Buffer, contentType) : body].flat()
+
+  if (allowlist && !operations.every(op => isAllowed(op, allowlist))) { throw createError({ statusCode: 403, statusMessage: 'GraphQL operation not allowed.' }) }
+
+  const { cookie, ...incomingHeaders } = getRequestHeaders(event)
+
+  const headers = clientHeaders(conf, {
+    ...Object.entries(incomingHeaders).reduce((acc, [k, v]) => omitHeaders.includes(k) || !v ? acc : { ...acc, [k]: [v].flat().join(', ') }, {}),
+    ...(conf.proxyCookies && cookie && { cookie })
+  })
+
+  const response = await fetch(method === 'GET' ? `${conf.host}?${new URLSearchParams(body as Record<string, string>)}` : conf.host, {
+    method,
+    headers,
+    ...(method !== 'GET' && { body: multipart ? body as Buffer : JSON.stringify(body) })
+  })
+
+  event.res.statusCode = response.status
+  event.res.setHeader('content-type', response.headers.get('content-type') || 'application/json')
+
+  const setCookies = conf.proxyCookies ? getSetCookies(response.headers) : []
+  if (setCookies.length) { event.res.setHeader('set-cookie', setCookies) }
+
+  return response.text()
+})
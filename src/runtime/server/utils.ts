@@ -0,0 +1,44 @@
+import { Kind, print, visit } from 'graphql'
+import type { DefinitionNode } from 'graphql'
+import type { GqlClient } from '../../types'
+
+/**
+ * Print a definition without `__typename` fields, so that documents transformed for the normalized cache match their source.
+ */
+export const definitionSignature = (definition: DefinitionNode) => print(visit(definition, {
+  Field: node => node.name.value === '__typename' && !node.alias ? null : undefined
+}))
+
+/**
+ * Collect the definitions of the documents that may be forwarded by the proxy route.
+ *
+ * @param {DefinitionNode[]} definitions Definitions from the GraphQL documents of the client
+ * @param {string[]} operations Operation names to allow, all operations are allowed when omitted
+ */
+export const allowedDefinitions = (definitions: DefinitionNode[], operations?: string[]) => definitions
+  .filter(d => d.kind !== Kind.OPERATION_DEFINITION || (!!d.name?.value && (!operations || operations.includes(d.name.value))))
+  .map(definitionSignature)
+
+/**
+ * Headers of requests sent to the GraphQL API of a client, including it's `serverOnly` headers and token.
+ *
+ * The token is omitted when the headers already specify it.
+ *
+ * @param {GqlClient} conf Configuration of the client
+ * @param {object} headers Headers of the request, which take precedence over the headers of the client
+ */
+export const clientHeaders = (conf: GqlClient<object>, headers: Record<string, string> = {}): Record<string, string> => {
+  const { serverOnly, ...clientHeaders } = (conf.headers || {}) as Record<string, string> & { serverOnly?: Record<string, string> }
+
+  const result: Record<string, string> = { ...clientHeaders, ...(typeof serverOnly === 'object' && serverOnly), ...headers }
+
+  const tokenName = conf.token?.name || 'Authorization'
+
+  if (conf.token?.value && !Object.keys(result).some(h => h.toLowerCase() === tokenName.toLowerCase())) {
+    const token = conf.token.value.trim()
+
+    result[tokenName] = !conf.token.type || token.match(/^[a-zA-Z]+\s/) ? token : `${conf.token.type} ${token}`
+  }
+
+  return result
+}
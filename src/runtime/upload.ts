@@ -0,0 +1,57 @@
+import type { GqlUploadProgress } from '../types'
+
+/**
+ * Check whether the variables of an operation contain files, which are sent following the GraphQL multipart request spec.
+ *
+ * @see https://github.com/jaydenseric/graphql-multipart-request-spec
+ */
+export const hasFiles = (value: any, seen = new Set<object>()): boolean => {
+  if (typeof Blob !== 'undefined' && value instanceof Blob) { return true }
+
+  if (!value || typeof value !== 'object' || seen.has(value)) { return false }
+
+  seen.add(value)
+
+  return Object.values(value).some(v => hasFiles(v, seen))
+}
+
+const parseHeaders = (headers: string) => new Headers(headers.trim().split(/[\r\n]+/).filter(Boolean).map((line) => {
+  const [name, ...value] = line.split(': ')
+
+  return [name, value.join(': ')] as [string, string]
+}))
+
+/**
+ * Create a `fetch` implementation for `GraphQLClient` which reports the progress of uploads.
+ *
+ * `fetch` doesn't expose the progress of request bodies, hence `XMLHttpRequest` is used when available.
+ *
+ * @param {Function} onProgress Invoked as the request body is being sent.
+ */
+export const uploadFetch = (onProgress: (progress: GqlUploadProgress) => void) => (url: string, init: RequestInit): Promise<Response> => {
+  if (typeof XMLHttpRequest === 'undefined') { return fetch(url, init) }
+
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest()
+
+    xhr.open(init.method || 'POST', url)
+    xhr.withCredentials = init.credentials === 'include'
+
+    new Headers(init.headers).forEach((value, name) => xhr.setRequestHeader(name, value))
+
+    xhr.upload.onprogress = e => onProgress({ loaded: e.loaded, total: e.lengthComputable ? e.total : undefined })
+
+    xhr.onload = () => resolve(new Response(xhr.responseText, {
+      status: xhr.status,
+      statusText: xhr.statusText,
+      headers: parseHeaders(xhr.getAllResponseHeaders())
+    }))
+
+    xhr.onerror = () => reject(new TypeError('Network request failed'))
+    xhr.onabort = () => reject(new DOMException('The upload was aborted.', 'AbortError'))
+
+    init.signal?.addEventListener('abort', () => xhr.abort())
+
+    xhr.send(init.body as XMLHttpRequestBodyInit)
+  })
+}
@@ -0,0 +1,21 @@
+/**
+ * Retrieve the client whose documents declare an operation, operations of unknown clients are assumed to be declared by the `default` client.
+ *
+ * The operation is executed with the document of the specified `client` when it also declares the operation.
+ *
+ * @param {object} clientOps Operations declared by each client.
+ * @param {string} operation Name of the operation.
+ * @param {Function} usage Usage specifying the client, suggested when the operation is declared by multiple clients, e.g. `useGql('<client>')`.
+ * @param {string} client The client specified for the operation.
+ */
+export const getOperationClient = (clientOps: Record<string, string[]>, operation: string, usage: (client: string) => string, client?: string): string => {
+  if (client && clientOps[client]?.includes(operation)) { return client }
+
+  const clients = Object.keys(clientOps).filter(k => clientOps[k].includes(operation))
+
+  if (clients.length > 1) {
+    throw new Error(`[nuxt-graphql-client] The \`${operation}\` operation is declared by multiple clients (${clients.join(', ')}), the client must be specified, e.g. \`${usage(clients[0])}\`.`)
+  }
+
+  return clients[0] ?? 'default'
+}
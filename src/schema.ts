@@ -0,0 +1,288 @@
+import { existsSync, statSync, readFileSync, promises as fsp } from 'fs'
+import { dirname } from 'path'
+import { Kind, visit, TypeInfo, buildSchema, printSchema, typeFromAST, getNamedType, isInputType, isScalarType, isObjectType, isCompositeType, isInterfaceType, isInputObjectType, isSpecifiedScalarType, visitWithTypeInfo, findBreakingChanges, findDangerousChanges } from 'graphql'
+import { loadSchema } from '@graphql-tools/load'
+import { UrlLoader } from '@graphql-tools/url-loader'
+import { JsonFileLoader } from '@graphql-tools/json-file-loader'
+import { GraphQLFileLoader } from '@graphql-tools/graphql-file-loader'
+import type { Resolver } from '@nuxt/kit'
+import type { GraphQLType, GraphQLSchema, GraphQLInputType, GraphQLCompositeType, SelectionSetNode, DefinitionNode, OperationDefinitionNode, FragmentDefinitionNode } from 'graphql'
+import { prepareSchema } from './generate'
+import { parseDocument } from './utils'
+import type { GqlClient, GqlScalarMap, GqlScalarTree } from './types'
+
+const loadedSchemas = new Map<string, { mtime?: number, schema: Promise<GraphQLSchema> }>()
+
+/**
+ * Load the schema of a client, from either it's `schema` file or introspection.
+ *
+ * Loaded schemas are reused, a `schema` file is reloaded once it's modified, and introspected schemas once they're cleared by `clearClientSchemas`.
+ */
+export function loadClientSchema (client: GqlClient<object>, resolver?: Resolver) {
+  const pointer = prepareSchema(client, resolver)
+  const key = JSON.stringify(pointer)
+  const mtime = client.schema && existsSync(client.schema) ? statSync(client.schema).mtimeMs : undefined
+
+  const loaded = loadedSchemas.get(key)
+  if (loaded && loaded.mtime === mtime) { return loaded.schema }
+
+  const schema = loadSchema(pointer, {
+    timeout: 10000,
+    loaders: [new GraphQLFileLoader(), new JsonFileLoader(), new UrlLoader()]
+  })
+
+  // failed introspections are retried on the next load
+  schema.catch(() => loadedSchemas.get(key)?.schema === schema && loadedSchemas.delete(key))
+  loadedSchemas.set(key, { mtime, schema })
+
+  return schema
+}
+
+/**
+ * Discard the loaded schemas of introspected clients, they're introspected again on their next load.
+ */
+export const clearClientSchemas = () => {
+  for (const [key, { mtime }] of loadedSchemas) {
+    if (mtime === undefined) { loadedSchemas.delete(key) }
+  }
+}
+
+export interface GqlSchemaChange {
+  type: string
+  criticality: 'breaking' | 'dangerous' | 'safe'
+  description: string
+
+  /**
+   * Names of the operations affected by the change.
+   */
+  operations: string[]
+}
+
+/**
+ * Read the schema snapshot at the specified path, if it exists.
+ */
+export const readSchemaSnapshot = (path: string) => existsSync(path) ? buildSchema(readFileSync(path, 'utf-8')) : undefined
+
+/**
+ * Persist the SDL of a schema as a snapshot, the snapshot is only written when the schema has changed.
+ *
+ * @param {GraphQLSchema} schema Schema to persist.
+ * @param {string} path Path of the snapshot.
+ * @returns Whether the snapshot was written.
+ */
+export async function writeSchemaSnapshot (schema: GraphQLSchema, path: string) {
+  const sdl = printSchema(schema)
+
+  if (existsSync(path) && readFileSync(path, 'utf-8') === sdl) { return false }
+
+  await fsp.mkdir(dirname(path), { recursive: true })
+  await fsp.writeFile(path, sdl)
+
+  return true
+}
+
+// types and fields (`Type.field`) used by each operation, including the fragments it spreads
+function collectUsage (schema: GraphQLSchema, documents: string[]) {
+  const usage: Record<string, { used: Set<string>, spreads: Set<string> }> = {}
+  const fragments: Record<string, { used: Set<string>, spreads: Set<string> }> = {}
+
+  for (const doc of documents) {
+    const definitions = parseDocument(doc).definitions
+      .filter((d): d is OperationDefinitionNode | FragmentDefinitionNode => d.kind === Kind.OPERATION_DEFINITION || d.kind === Kind.FRAGMENT_DEFINITION)
+
+    for (const definition of definitions) {
+      if (!definition.name?.value) { continue }
+
+      const entry = { used: new Set<string>(), spreads: new Set<string>() }
+      const typeInfo = new TypeInfo(schema)
+      const use = (type?: GraphQLType | null) => { type && entry.used.add(getNamedType(type).name) }
+
+      visit(definition, visitWithTypeInfo(typeInfo, {
+        Field () {
+          const parent = typeInfo.getParentType()
+          const field = typeInfo.getFieldDef()
+
+          if (!parent || !field) { return }
+
+          entry.used.add(`${parent.name}.${field.name}`)
+          use(parent)
+          use(field.type)
+        },
+        ObjectField () { use(typeInfo.getInputType()) },
+        Argument () { use(typeInfo.getInputType()) },
+        VariableDefinition () { use(typeInfo.getInputType()) },
+        InlineFragment () { use(typeInfo.getType()) },
+        FragmentDefinition () { use(typeInfo.getType()) },
+        FragmentSpread (node) { entry.spreads.add(node.name.value) }
+      }))
+
+      if (definition.kind === Kind.FRAGMENT_DEFINITION) {
+        fragments[definition.name.value] = entry
+      } else {
+        usage[definition.name.value] = entry
+      }
+    }
+  }
+
+  const spread = (used: Set<string>, spreads: Set<string>, seen = new Set<string>()) => {
+    for (const name of spreads) {
+      if (seen.has(name) || !fragments[name]) { continue }
+
+      seen.add(name)
+      fragments[name].used.forEach(u => used.add(u))
+      spread(used, fragments[name].spreads, seen)
+    }
+  }
+
+  return Object.entries(usage).reduce((acc, [name, { used, spreads }]) => {
+    spread(used, spreads)
+
+    return { ...acc, [name]: used }
+  }, {} as Record<string, Set<string>>)
+}
+
+/**
+ * Find the changes between the previous and current schema of a client, along with the operations affected by each change.
+ *
+ * Breaking and dangerous changes are determined by `graphql`, added types and fields are reported as safe changes.
+ *
+ * @param {GraphQLSchema} previous The last known schema of the client.
+ * @param {GraphQLSchema} schema The current schema of the client.
+ * @param {string[]} documents Paths of the client's documents.
+ */
+export function findSchemaChanges (previous: GraphQLSchema, schema: GraphQLSchema, documents: string[]): GqlSchemaChange[] {
+  const safe: Omit<GqlSchemaChange, 'criticality' | 'operations'>[] = []
+
+  for (const type of Object.values(schema.getTypeMap())) {
+    if (type.name.startsWith('__')) { continue }
+
+    const previousType = previous.getType(type.name)
+
+    if (!previousType) {
+      safe.push({ type: 'TYPE_ADDED', description: `${type.name} was added.` })
+      continue
+    }
+
+    if (!(isObjectType(type) || isInterfaceType(type)) || !(isObjectType(previousType) || isInterfaceType(previousType))) { continue }
+
+    const fields = previousType.getFields()
+
+    for (const field of Object.keys(type.getFields())) {
+      if (!fields[field]) { safe.push({ type: 'FIELD_ADDED', description: `${type.name}.${field} was added.` }) }
+    }
+  }
+
+  const changes = [
+    ...findBreakingChanges(previous, schema).map(c => ({ ...c, criticality: 'breaking' as const })),
+    ...findDangerousChanges(previous, schema).map(c => ({ ...c, criticality: 'dangerous' as const })),
+    ...safe.map(c => ({ ...c, criticality: 'safe' as const }))
+  ]
+
+  if (!changes.length) { return [] }
+
+  const usage = collectUsage(previous, documents)
+
+  return changes.map((change) => {
+    // changes of fields are matched by their coordinate (`Type.field`), other changes by the types they mention
+    const coordinates = change.description.match(/\b[_A-Za-z]\w*\.[_A-Za-z]\w*\b/g)
+    const types = change.description.match(/\b[_A-Za-z]\w*\b/g)?.filter(t => previous.getType(t)) || []
+
+    const affects = (used: Set<string>) => coordinates
+      ? coordinates.some(c => used.has(c) || (isInputObjectType(previous.getType(c.split('.')[0])) && used.has(c.split('.')[0])))
+      : types.some(t => used.has(t))
+
+    return {
+      type: change.type,
+      criticality: change.criticality,
+      description: change.description,
+      operations: Object.entries(usage).filter(([_, used]) => affects(used)).map(([name]) => name)
+    }
+  })
+}
+
+/**
+ * Collect the paths of custom scalars within the results and variables of each operation, keyed by the operation name.
+ * Operations without custom scalars are omitted.
+ *
+ * @param {GraphQLSchema} schema Schema of the client.
+ * @param {string[]} documents Paths of the client's documents.
+ */
+export function collectScalars (schema: GraphQLSchema, documents: string[]): GqlScalarMap {
+  const definitions: DefinitionNode[] = documents.flatMap(doc => parseDocument(doc).definitions)
+
+  const fragments = definitions.reduce<Record<string, FragmentDefinitionNode>>((acc, d) => d.kind === Kind.FRAGMENT_DEFINITION ? { ...acc, [d.name.value]: d } : acc, {})
+
+  const isCustomScalar = (type: GraphQLType) => isScalarType(type) && !isSpecifiedScalarType(type)
+
+  // response keys (aliases included) of the selection set leading to custom scalars, fragments are merged into the selection set
+  const selectionTree = (type: GraphQLCompositeType, selectionSet: SelectionSetNode, tree: GqlScalarTree = {}) => {
+    for (const selection of selectionSet.selections) {
+      if (selection.kind !== Kind.FIELD) {
+        const fragment = selection.kind === Kind.FRAGMENT_SPREAD ? fragments[selection.name.value] : selection
+        const condition = fragment?.typeCondition ? schema.getType(fragment.typeCondition.name.value) : type
+
+        if (fragment && condition && isCompositeType(condition)) { selectionTree(condition, fragment.selectionSet, tree) }
+
+        continue
+      }
+
+      const field = isObjectType(type) || isInterfaceType(type) ? type.getFields()[selection.name.value] : undefined
+      const named = field && getNamedType(field.type)
+      const key = selection.alias?.value || selection.name.value
+
+      if (named && isCustomScalar(named)) {
+        tree[key] = named.name
+      } else if (named && isCompositeType(named) && selection.selectionSet) {
+        const subtree = selectionTree(named, selection.selectionSet, typeof tree[key] === 'object' ? tree[key] as GqlScalarTree : {})
+
+        if (Object.keys(subtree).length) { tree[key] = subtree }
+      }
+    }
+
+    return tree
+  }
+
+  // fields of input types leading to custom scalars, recursive input types are followed up to three levels deep
+  const inputTree = (type: GraphQLInputType, seen: string[] = []): GqlScalarTree | string | undefined => {
+    const named = getNamedType(type)
+
+    if (isCustomScalar(named)) { return named.name }
+
+    if (!isInputObjectType(named) || seen.filter(name => name === named.name).length > 2) { return }
+
+    const tree: GqlScalarTree = {}
+
+    for (const field of Object.values(named.getFields())) {
+      const subtree = inputTree(field.type, [...seen, named.name])
+
+      if (subtree) { tree[field.name] = subtree }
+    }
+
+    return Object.keys(tree).length ? tree : undefined
+  }
+
+  const scalars: GqlScalarMap = {}
+
+  for (const operation of definitions) {
+    if (operation.kind !== Kind.OPERATION_DEFINITION || !operation.name) { continue }
+
+    const root = schema.getRootType(operation.operation)
+    const result = root ? selectionTree(root, operation.selectionSet) : {}
+
+    const variables = (operation.variableDefinitions || []).reduce<GqlScalarTree>((acc, { variable, type }) => {
+      const inputType = typeFromAST(schema, type)
+      const subtree = inputType && isInputType(inputType) ? inputTree(inputType) : undefined
+
+      return subtree ? { ...acc, [variable.name.value]: subtree } : acc
+    }, {})
+
+    if (!Object.keys(result).length && !Object.keys(variables).length) { continue }
+
+    scalars[operation.name.value] = {
+      ...(Object.keys(result).length && { result }),
+      ...(Object.keys(variables).length && { variables })
+    }
+  }
+
+  return scalars
+}
@@ -1,6 +1,9 @@
+import type { Client as WsClient } from 'graphql-ws'
+import type { addMocksToSchema } from '@graphql-tools/mock'
 import type { GraphQLClient } from 'graphql-request'
-import type { GraphQLError } from 'graphql-request/dist/types'
+import type { PatchedRequestInit } from 'graphql-request/dist/types'
 import type { CookieOptions } from 'nuxt/dist/app/composables'
+import type { Ref } from 'vue'
 
 type TokenOpts = {
   /**
@@ -40,6 +43,170 @@ type TokenStorageOpts = {
   cookieOptions?: Omit< CookieOptions, 'encode' | 'decode' | 'expires' | 'default'>;
 }
 
+/**
+ * - `cache-first`: Return cached data when available, otherwise send a request.
+ * - `network-only`: Always send a request, and update the cache.
+ * - `cache-and-network`: Return cached data when available, while sending a request to update the cache.
+ * - `cache-only`: Only return cached data, no request is sent.
+ * */
+export type GqlFetchPolicy = 'cache-first' | 'network-only' | 'cache-and-network' | 'cache-only'
+
+export type GqlErrorPolicy = 'none' | 'all' | 'ignore'
+
+type GqlCacheOpts = {
+  /**
+   * The fetch policy applied to requests that don't specify one.
+   *
+   * @type {string}
+   * @default "cache-first"
+   * */
+  fetchPolicy?: GqlFetchPolicy;
+
+  /**
+   * Specify the field(s) used to identify entities of a given `__typename`.
+   * Entities are identified by their `id` or `_id` field by default.
+   *
+   * @example { Launch: ['mission_name', 'launch_year'] }
+   * */
+  keys?: Record<string, string | string[]>;
+}
+
+type PersistedQueriesOpts = {
+  /**
+   * Only send the hashes of operations (trusted documents), the documents are stripped from the client bundle entirely.
+   * Requires the GraphQL API to be provided with the generated manifest.
+   *
+   * @type boolean
+   * @default false
+   * */
+  strict?: boolean;
+}
+
+type ProxyOpts = {
+  /**
+   * Only forward operations declared in your GraphQL documents. Provide a list of operation names to further restrict the operations allowed.
+   *
+   * @type boolean | string[]
+   * @default true
+   * */
+  allowlist?: boolean | string[];
+}
+
+export type GqlBatchOpts = {
+  /**
+   * The time window (in milliseconds) during which operations are combined into a single request.
+   *
+   * @type number
+   * @default 10
+   * */
+  window?: number;
+
+  /**
+   * The maximum number of operations combined into a single request.
+   *
+   * @type number
+   * @default 10
+   * */
+  max?: number;
+}
+
+type TokenRefreshOpts = {
+  /**
+   * HTTP status codes signaling an invalid or expired token.
+   *
+   * @type number[]
+   * @default [401]
+   * */
+  statusCodes?: number[];
+
+  /**
+   * GraphQL error codes (`extensions.code`) signaling an invalid or expired token.
+   *
+   * @type string[]
+   * @default ['UNAUTHENTICATED']
+   * */
+  errorCodes?: string[];
+}
+
+export type GqlRetryOpts = {
+  /**
+   * The maximum number of retries.
+   *
+   * @type number
+   * @default 3
+   * */
+  count?: number;
+
+  /**
+   * The delay (in milliseconds) before the first retry.
+   *
+   * @type number
+   * @default 300
+   * */
+  delay?: number;
+
+  /**
+   * How the delay grows between retries.
+   *
+   * @type string
+   * @default "exponential"
+   * */
+  backoff?: 'exponential' | 'linear' | 'fixed';
+
+  /**
+   * HTTP status codes that should be retried.
+   *
+   * @type number[]
+   * @default [408, 429, 500, 502, 503, 504]
+   * */
+  statusCodes?: number[];
+
+  /**
+   * Types of errors that should be retried, regardless of their status code.
+   * - `network`: The GraphQL API couldn't be reached.
+   * - `timeout`: The request exceeded its `timeout`.
+   * - `graphql`: The GraphQL API responded with errors.
+   *
+   * @type string[]
+   * @default ['network', 'timeout']
+   * */
+  errorTypes?: ('network' | 'timeout' | 'graphql')[];
+
+  /**
+   * Retry mutations, which may not be idempotent.
+   *
+   * @type boolean
+   * @default false
+   * */
+  mutations?: boolean;
+}
+
+/**
+ * A codegen plugin, either it's name or `{ '<plugin>': config }`.
+ * */
+export type GqlCodegenPlugin = string | Record<string, any>
+
+export interface GqlCodegenOptions {
+  /**
+   * Configuration passed to the codegen plugins, e.g. `{ enumsAsTypes: true, avoidOptionals: true }`.
+   *
+   * @see https://the-guild.dev/graphql/codegen/plugins/typescript/typescript#config-api-reference
+   * */
+  config?: Record<string, any>
+
+  /**
+   * Additional codegen plugins, added to the generated types and sdk.
+   * */
+  plugins?: GqlCodegenPlugin[]
+
+  /**
+   * Additional outputs generated for each client, keyed by their name. Outputs are importable via `#gql/<client>/<output>`.
+   *
+   * @example { zod: { plugins: ['typescript-validation-schema'], config: { schema: 'zod' } } }
+   * */
+  outputs?: Record<string, { plugins: GqlCodegenPlugin[], config?: Record<string, any> }>
+}
+
 export interface GqlClient<T = string> {
   host: string
 
@@ -50,6 +217,14 @@ export interface GqlClient<T = string> {
    * */
   clientHost?: string
 
+  /**
+   * Specify a WebSocket host to be used for GraphQL subscriptions (`graphql-ws` protocol).
+   *
+   * @type string
+   * @example 'wss://api.example.com/graphql'
+   * */
+  wsHost?: string
+
   /**
    * Specify a host to be used for introspection.
    *
@@ -80,6 +255,15 @@ export interface GqlClient<T = string> {
    * */
   retainToken?: boolean
 
+  /**
+   * Configure the authentication failures which trigger the `gql:auth:refresh` hook.
+   * The request is replayed once when the hook provides a new token.
+   *
+   * @type boolean
+   * @default true
+   * */
+  tokenRefresh?: T extends object ? TokenRefreshOpts : boolean | TokenRefreshOpts
+
   /**
    * Pass cookies from the browser to the GraphQL API in SSR mode.
    *
@@ -110,9 +294,94 @@ export interface GqlClient<T = string> {
    * Declare headers that should only be applied to the GraphQL Code Generator.
    * */
   codegenHeaders?: Record<string, string>
+
+  /**
+   * Codegen `config`, `plugins` and `outputs` of this client, applied on top of the top-level `codegen` options.
+   * */
+  codegen?: GqlCodegenOptions
+
+  /**
+   * Configuration for the normalized cache.
+   * */
+  cache?: T extends object ? GqlCacheOpts : boolean | GqlCacheOpts
+
+  /**
+   * Enable Automatic Persisted Queries (APQ). Operations are sent as SHA-256 hashes, falling back to the full document when the GraphQL API doesn't recognize the hash.
+   * A manifest of the hashes and their documents is generated at `.nuxt/gql/persisted-queries/<client>.json`.
+   *
+   * @type boolean
+   * @default false
+   * */
+  persistedQueries?: boolean | PersistedQueriesOpts
+
+  /**
+   * Send client side requests through a server route (`/api/_gql/<client>`), hiding the GraphQL API's host and server-only credentials from the browser.
+   * The server route applies the client's token and `serverOnly` headers before forwarding the request.
+   *
+   * @type boolean
+   * @default false
+   * */
+  proxy?: T extends object ? ProxyOpts : boolean | ProxyOpts
+
+  /**
+   * Combine operations sent within a small time window into a single array-batched request.
+   * Requires a GraphQL API that supports query batching.
+   *
+   * @type boolean
+   * @default false
+   * */
+  batch?: T extends object ? GqlBatchOpts : boolean | GqlBatchOpts
+
+  /**
+   * Execute operations in-process against the client's `schema`, populated with mocked values. No requests are sent to the GraphQL API.
+   * Resolver overrides are loaded from `gql/mocks/<client>.ts`.
+   *
+   * @note Requires the `schema` option.
+   *
+   * @type boolean
+   * @default false
+   * */
+  mock?: boolean
+
+  /**
+   * Retry failed requests. Provide a number to configure the maximum number of retries.
+   *
+   * @type boolean | number
+   * @default false
+   * */
+  retry?: boolean | number | GqlRetryOpts
+
+  /**
+   * Abort requests that take longer than the specified time (in milliseconds).
+   *
+   * @type number
+   * */
+  timeout?: number
+
+  /**
+   * Map custom scalars to TypeScript types in the generated types, e.g. `{ DateTime: 'Date' }`.
+   * Values can be parsed and serialized at runtime by exporting `parse` / `serialize` functions from `gql/scalars/<client>.ts`.
+   *
+   * @type object
+   * */
+  scalars?: Record<string, string>
+
+  /**
+   * How GraphQL errors are handled.
+   *
+   * - `none`: The request fails, the partial data is available as `data` of the error.
+   * - `all`: The request resolves with the partial data, and the errors are reported as well.
+   * - `ignore`: The request resolves with the partial data, and the errors are discarded.
+   *
+   * @note Requests without any data fail regardless of the policy.
+   *
+   * @type string
+   * @default 'none'
+   * */
+  errorPolicy?: GqlErrorPolicy
 }
 
-export interface GqlCodegen {
+export interface GqlCodegen extends GqlCodegenOptions {
   /**
    * Disable Code Generation for production builds.
    *
@@ -172,13 +441,33 @@ export interface GqlConfig<T = GqlClient> {
   codegen?: boolean | GqlCodegen
 
   /**
-   * Enable hot reloading for GraphQL documents
+   * Enable hot reloading for GraphQL documents, only the clients whose documents changed are regenerated.
    *
    * @type boolean
    * @default true
    */
   watch?: boolean
 
+  /**
+   * Validate GraphQL documents against the schema of their client. Errors fail production builds, and are shown in the error overlay during development.
+   *
+   * @type boolean
+   * @default true
+   */
+  validate?: boolean
+
+  /**
+   * Persist the schema of each client as a snapshot in the specified directory, changes since the previous snapshot are reported to the console and `.nuxt/gql/schema-changes.json`.
+   * The snapshots of clients without a `schema` are used in place of introspection when the host is unreachable.
+   *
+   * @note Run `npx nuxt-graphql-client refresh-schemas` to refresh the snapshots, failing rather than falling back to existing snapshots.
+   *
+   * @type boolean | string
+   * @default true ('node_modules/.cache/nuxt-graphql-client/schemas')
+   * @example 'gql/schemas'
+   */
+  schemaSnapshots?: boolean | string
+
   /**
    * Auto import functions based on the operation names of your queries & mutations. When set to true, you can write
    * ```ts
@@ -231,6 +520,29 @@ export interface GqlConfig<T = GqlClient> {
    * Configuration for the token storage
    * */
   tokenStorage?: boolean | TokenStorageOpts
+
+  /**
+   * Enable a normalized cache for all clients. Entities are cached by their `__typename` and identifier.
+   *
+   * @type boolean
+   * @default false
+   * */
+  cache?: boolean | GqlCacheOpts
+
+  /**
+   * Record operations on both server and client side, and display them in an inspector panel. Only available during development.
+   *
+   * @type boolean
+   * @default false
+   * */
+  inspector?: boolean
+}
+
+export type GqlGraphQLError = {
+  message: string
+  locations?: { line: number, column: number }[]
+  path?: (string | number)[]
+  extensions?: { code?: string, [key: string]: any }
 }
 
 export type GqlError = {
@@ -238,10 +550,233 @@ export type GqlError = {
   operationName?: string
   operationType?: string
   statusCode?: number
-  gqlErrors: GraphQLError[]
+
+  /**
+   * - `network`: The request failed or timed out, or the response isn't a GraphQL response.
+   * - `graphql`: The GraphQL API responded with errors.
+   * - `abort`: The request was aborted by it's `signal`.
+   * */
+  kind: 'network' | 'graphql' | 'abort'
+
+  gqlErrors: GqlGraphQLError[]
+
+  /**
+   * The partial data returned alongside GraphQL errors.
+   * */
+  data?: any
+
+  /**
+   * The request that failed. Headers are omitted, as they may contain tokens.
+   * */
+  request?: { document: string, variables?: Record<string, any> }
+
+  /**
+   * The attempt that failed, starting at `1`. Greater than `1` for retried requests.
+   * */
+  attempt?: number
+}
+
+export type GqlUploadProgress = {
+  loaded: number
+  total?: number
+}
+
+export interface GqlRequestOptions {
+  /**
+   * Specify how the normalized cache is used for this request. Only applies to clients with the cache enabled.
+   * */
+  fetchPolicy?: GqlFetchPolicy
+
+  /**
+   * Track the progress of requests uploading files (`File` or `Blob` variables), only reported client-side.
+   * */
+  onUploadProgress?: (progress: GqlUploadProgress) => void
+
+  /**
+   * Override the `retry` option of the client for this request.
+   * */
+  retry?: boolean | number | GqlRetryOpts
+
+  /**
+   * Override the `timeout` option of the client for this request.
+   * */
+  timeout?: number
+
+  /**
+   * Override the `errorPolicy` option of the client for this request.
+   * */
+  errorPolicy?: GqlErrorPolicy
+
+  /**
+   * Headers of this request, applied on top of the headers and token of the client.
+   * */
+  headers?: Record<string, string>
+
+  /**
+   * Abort the request.
+   * */
+  signal?: AbortSignal
+
+  /**
+   * Execute the operation with the specified client, rather than the client it's document is associated with.
+   * */
+  client?: string
+
+  /**
+   * Additional `fetch` options of this request.
+   * */
+  fetchOptions?: Omit<RequestInit, 'body' | 'method' | 'headers' | 'signal'>
+}
+
+export interface GqlServerOptions extends Pick<GqlRequestOptions, 'client' | 'headers' | 'retry' | 'timeout' | 'errorPolicy'> {
+  /**
+   * Forward the cookies of the incoming request.
+   *
+   * @default false
+   * */
+  forwardCookies?: boolean
+
+  /**
+   * Forward the authorization header (the `token.name` header of the client) of the incoming request, in place of the client's token.
+   *
+   * @default false
+   * */
+  forwardAuthorization?: boolean
+}
+
+export type GqlMaybeRef<T> = T | Ref<T>
+
+/**
+ * Variables of an operation, provided as either a ref, or an object of which individual fields can be refs.
+ * */
+export type GqlVariables<T> = GqlMaybeRef<T | { [K in keyof T]: GqlMaybeRef<T[K]> }>
+
+export type GqlAsyncOpts = {
+  /**
+   * Delay (in milliseconds) the refetch triggered by a change of the variables, until they haven't changed for the specified time.
+   * */
+  debounce?: number
+}
+
+export type GqlInspectorRecord = {
+  id: number
+  client: string
+  operation: string
+  operationName?: string
+  operationType?: string
+  variables?: Record<string, any>
+
+  /**
+   * Hash of the operation name and variables.
+   * */
+  key: string
+
+  /**
+   * Headers of the request, after the token and headers of the client were applied.
+   * */
+  headers?: Record<string, string>
+
+  /**
+   * - `server`: Executed during SSR, the result is hydrated from the payload.
+   * - `client`: Executed client-side.
+   * */
+  side: 'server' | 'client'
+
+  /**
+   * Whether a client-side operation refetched an operation executed during SSR.
+   * */
+  refetched?: boolean
+  source?: 'network' | 'cache'
+  status: 'pending' | 'success' | 'error'
+  startedAt: number
+  duration?: number
+
+  /**
+   * Size of the serialized result, in bytes.
+   * */
+  size?: number
+  error?: GqlError
+}
+
+export type GqlPaginationOpts = {
+  /**
+   * - `relay`: Relay-style connections, pages are requested with the `endCursor` of the current page.
+   * - `offset`: Lists, pages are requested with the number of items fetched.
+   * */
+  strategy: 'relay' | 'offset'
+
+  /**
+   * Dot notated path to the paginated connection or list within the result.
+   *
+   * @example 'user.posts'
+   * */
+  path: string
+
+  /**
+   * Name of the cursor variable of `relay` pagination.
+   *
+   * @default 'after'
+   * */
+  cursorVariable?: string
+
+  /**
+   * Name of the offset variable of `offset` pagination.
+   *
+   * @default 'offset'
+   * */
+  offsetVariable?: string
+
+  /**
+   * Name of the variable that limits the number of items per page, used to determine whether a subsequent page is available for `offset` pagination.
+   *
+   * @default 'limit'
+   * */
+  limitVariable?: string
+}
+
+export type GqlPersistedQuery = {
+  operation: string
+  type: string
+  document?: string
+}
+
+/**
+ * The default export of `gql/mocks/<client>.ts`.
+ *
+ * @see https://the-guild.dev/graphql/tools/docs/mocking
+ * */
+export type GqlMockOptions = Omit<Parameters<typeof addMocksToSchema>[0], 'schema'>
+
+/**
+ * The default export of `gql/scalars/<client>.ts`, keyed by the name of the scalar.
+ * */
+export type GqlScalarOptions = Record<string, {
+  /**
+   * Parse a value of the response.
+   * */
+  parse?: (value: any) => any
+
+  /**
+   * Serialize a value of the variables.
+   * */
+  serialize?: (value: any) => any
+}>
+
+export type GqlScalarTree = { [key: string]: GqlScalarTree | string }
+
+/**
+ * Paths of the custom scalars within the result and variables of each operation.
+ * */
+export type GqlScalarMap = Record<string, { result?: GqlScalarTree, variables?: GqlScalarTree }>
+
+export type GqlCacheKeyFn = (entity: Record<string, any>) => string | number | null | undefined
+
+export type GqlCacheState = {
+  entities: Record<string, Record<string, any>>
+  results: Record<string, any>
 }
 
 export type OnGqlError = <T>(error: GqlError) => Promise<T> | any
 
-type GqlStateOpts = {instance?: GraphQLClient, options?: { token?: TokenOpts } & Pick<RequestInit, 'headers' | 'mode' | 'credentials'> }
+type GqlStateOpts = {instance?: GraphQLClient, host?: string, requestInit?: PatchedRequestInit, refreshing?: Promise<boolean>, batch?: (document: string, variables?: object, headers?: HeadersInit) => Promise<any>, pending?: Record<string, Promise<any>>, wsClient?: WsClient, cacheKeys?: Record<string, GqlCacheKeyFn>, options?: { token?: TokenOpts } & Pick<RequestInit, 'headers' | 'mode' | 'credentials'> }
 export type GqlState = Record<string, GqlStateOpts> & { onError?: OnGqlError }
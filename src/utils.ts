@@ -1,3 +1,7 @@
+import { readFileSync } from 'fs'
+import { parse, Source } from 'graphql'
+import type { DocumentNode } from 'graphql'
+
 export const mapDocsToClients = (documents: string[], clients: string[]) => {
   const mappedDocs = new Set()
 
@@ -27,3 +31,81 @@ export const mapDocsToClients = (documents: string[], clients: string[]) => {
     return acc
   }, {} as Record<string, string[]>)
 }
+
+export interface ExtractedDocument {
+  document: string
+  client?: string
+}
+
+/**
+ * Extract GraphQL documents from `gql` / `graphql` tagged template literals and `<graphql>` SFC blocks.
+ * Documents are prefixed with blank lines, so that their line numbers match the source file.
+ *
+ * The client of a document is specified by either a `client` attribute on the SFC block, a `client` option of the tag (gql({ client: 'name' })`...`),
+ * or a `# @client <name>` comment within the document. Tagged templates containing expressions (`${}`) are skipped.
+ */
+export const extractDocuments = (source: string): ExtractedDocument[] => {
+  const documents: ExtractedDocument[] = []
+
+  const push = (document: string, index: number, client?: string) => {
+    if (document.includes('${')) { return }
+
+    client ||= document.match(/#\s*@client\s+(\w+)/)?.[1]
+
+    documents.push({ document: '\n'.repeat(source.slice(0, index).split('\n').length - 1) + document, client })
+  }
+
+  for (const match of source.matchAll(/\b(?:gql|graphql)\s*(?:\(\s*\{\s*client\s*:\s*["'](\w+)["']\s*,?\s*\}\s*\)\s*)?`([^`]*)`/g)) {
+    push(match[2], match.index! + match[0].indexOf('`') + 1, match[1])
+  }
+
+  for (const match of source.matchAll(/<graphql(\s[^>]*)?>([\s\S]*?)<\/graphql>/g)) {
+    push(match[2], match.index! + match[0].indexOf('>') + 1, match[1]?.match(/\bclient=["'](\w+)["']/)?.[1])
+  }
+
+  return documents.filter(({ document }) => document.trim())
+}
+
+/**
+ * Find the first reference to one of the specified identifiers within an ESTree AST.
+ * Comments, strings and the keys of properties aren't references, unlike unresolved identifiers of compiled Vue templates (`_ctx.<name>`).
+ */
+export const findReference = (node: any, names: string[]): { name: string, start: number } | undefined => {
+  if (Array.isArray(node)) {
+    for (const child of node) {
+      const found = findReference(child, names)
+      if (found) { return found }
+    }
+
+    return
+  }
+
+  if (!node || typeof node !== 'object') { return }
+
+  if (node.type === 'Identifier' && names.includes(node.name)) { return { name: node.name, start: node.start } }
+
+  for (const [key, value] of Object.entries(node)) {
+    const isKey = !node.computed && ((node.type === 'MemberExpression' && key === 'property' && node.object?.name !== '_ctx') || (node.type === 'Property' && key === 'key'))
+    if (isKey || !value || typeof value !== 'object') { continue }
+
+    const found = findReference(value, names)
+    if (found) { return found }
+  }
+}
+
+const parsedDocuments = new Map<string, { body: string, document: DocumentNode }>()
+
+/**
+ * Parse the GraphQL document at the specified path, the AST is reused until the contents of the document change.
+ */
+export const parseDocument = (path: string) => {
+  const body = readFileSync(path, 'utf-8')
+  const cached = parsedDocuments.get(path)
+
+  if (cached?.body === body) { return cached.document }
+
+  const document = parse(new Source(body, path))
+  parsedDocuments.set(path, { body, document })
+
+  return document
+}
@@ -0,0 +1,116 @@
+import { Kind, validate, getLocation, specifiedRules, GraphQLError, NoDeprecatedCustomRule, UniqueFragmentNamesRule, UniqueOperationNamesRule, LoneAnonymousOperationRule } from 'graphql'
+import type { DefinitionNode, GraphQLSchema, ValidationRule } from 'graphql'
+import { parseDocument } from './utils'
+
+export interface GqlDiagnostic {
+  client?: string
+  severity: 'error' | 'warning'
+  message: string
+  file?: string
+  line?: number
+  column?: number
+}
+
+/**
+ * Validate the documents of a client against it's schema.
+ *
+ * The documents are validated together, as fragments can be shared between the documents of a client.
+ * The usage of deprecated fields is reported as a warning, whereas duplicate and anonymous operations are reported by `checkDocuments`.
+ *
+ * @param {string} client Name of the client.
+ * @param {GraphQLSchema} schema Schema of the client.
+ * @param {string[]} documents Paths of the client's documents.
+ * @param {Object} sources Source files of extracted documents, keyed by the path of the extracted document.
+ */
+export function validateDocuments (client: string, schema: GraphQLSchema, documents: string[], sources: Record<string, string> = {}): GqlDiagnostic[] {
+  const diagnostics: GqlDiagnostic[] = []
+  const definitions: DefinitionNode[] = []
+
+  const toDiagnostic = (severity: GqlDiagnostic['severity']) => (error: GraphQLError): GqlDiagnostic => ({
+    client,
+    severity,
+    message: error.message,
+    file: error.source && (sources[error.source.name] || error.source.name),
+    line: error.locations?.[0]?.line,
+    column: error.locations?.[0]?.column
+  })
+
+  for (const doc of documents) {
+    try {
+      definitions.push(...parseDocument(doc).definitions)
+    } catch (e) {
+      if (!(e instanceof GraphQLError)) { throw e }
+
+      diagnostics.push(toDiagnostic('error')(e))
+    }
+  }
+
+  const document = { kind: Kind.DOCUMENT, definitions } as const
+
+  const excluded: ValidationRule[] = [UniqueOperationNamesRule, UniqueFragmentNamesRule, LoneAnonymousOperationRule]
+  const rules = specifiedRules.filter(rule => !excluded.includes(rule))
+
+  diagnostics.push(...validate(schema, document, rules).map(toDiagnostic('error')))
+  diagnostics.push(...validate(schema, document, [NoDeprecatedCustomRule]).map(toDiagnostic('warning')))
+
+  return diagnostics
+}
+
+/**
+ * Find duplicate operation and fragment names within the documents of each client, anonymous operations,
+ * and documents which aren't associated with any client.
+ *
+ * Unlike `validateDocuments`, this doesn't require the schema of the clients.
+ *
+ * @param {Object} clientDocs Paths of the documents, keyed by client.
+ * @param {string[]} documents Paths of all documents.
+ * @param {Object} sources Source files of extracted documents, keyed by the path of the extracted document.
+ */
+export function checkDocuments (clientDocs: Record<string, string[]>, documents: string[], sources: Record<string, string> = {}): GqlDiagnostic[] {
+  const diagnostics: GqlDiagnostic[] = []
+
+  for (const [client, docs] of Object.entries(clientDocs)) {
+    const declared: Record<string, Pick<GqlDiagnostic, 'file' | 'line' | 'column'>> = {}
+
+    for (const doc of docs) {
+      let definitions: readonly DefinitionNode[]
+
+      // syntax errors are reported by `validateDocuments`
+      try { definitions = parseDocument(doc).definitions } catch { continue }
+
+      for (const definition of definitions) {
+        if (definition.kind !== Kind.OPERATION_DEFINITION && definition.kind !== Kind.FRAGMENT_DEFINITION) { continue }
+
+        const location = { file: sources[doc] || doc, ...(definition.loc && getLocation(definition.loc.source, definition.loc.start)) }
+        const kind = definition.kind === Kind.FRAGMENT_DEFINITION ? 'fragment' : 'operation'
+
+        if (!definition.name) {
+          diagnostics.push({ client, severity: 'error', message: `Anonymous operation in a document of the (${client}) GraphQL Client, operations must be named.`, ...location })
+          continue
+        }
+
+        const key = `${kind}:${definition.name.value}`
+
+        if (declared[key]) {
+          diagnostics.push({ client, severity: 'error', message: `Duplicate ${kind} name \`${definition.name.value}\` in the (${client}) GraphQL Client, first declared at ${formatLocation(declared[key])}.`, ...location })
+          continue
+        }
+
+        declared[key] = location
+      }
+    }
+  }
+
+  const mapped = Object.values(clientDocs).flat()
+
+  for (const doc of documents.filter(d => !mapped.includes(d))) {
+    diagnostics.push({ severity: 'warning', message: 'Document isn\'t associated with any GraphQL Client, as it\'s name or directory doesn\'t match a configured client.', file: sources[doc] || doc })
+  }
+
+  return diagnostics
+}
+
+const formatLocation = ({ file, line, column }: Pick<GqlDiagnostic, 'file' | 'line' | 'column'>) => [file, line, column].filter(Boolean).join(':')
+
+export const formatDiagnostic = ({ file, line, column, message }: GqlDiagnostic) =>
+  `${formatLocation({ file, line, column })}${file ? ' ' : ''}${message}`
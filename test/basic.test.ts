@@ -2,6 +2,9 @@ import { fileURLToPath } from 'node:url'
 import { describe, it, expect } from 'vitest'
 import { setup, $fetch } from '@nuxt/test-utils'
 
+// operations are executed against the example's schema, hence the suite runs without network access
+process.env.GQL_MOCK = 'true'
+
 await setup({
   server: true,
   rootDir: fileURLToPath(new URL('../examples/basic', import.meta.url))
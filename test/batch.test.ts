@@ -0,0 +1,81 @@
+import { describe, it, expect, vi } from 'vitest'
+import { ClientError } from 'graphql-request'
+import type { GraphQLClient } from 'graphql-request'
+import { createBatch } from '../src/runtime/batch'
+
+const createInstance = (batchRequests: (...args: any[]) => Promise<any>) => ({
+  request: vi.fn((document: string) => Promise.resolve({ document })),
+  batchRequests: vi.fn(batchRequests)
+})
+
+describe('createBatch', () => {
+  it('sends a single operation as a regular request', async () => {
+    const instance = createInstance(() => Promise.resolve([]))
+    const batch = createBatch(instance as unknown as GraphQLClient)
+
+    await expect(batch('{ a }', { id: 1 }, { 'X-Test': '1' })).resolves.toEqual({ document: '{ a }' })
+
+    expect(instance.request).toHaveBeenCalledWith('{ a }', { id: 1 }, { 'X-Test': '1' })
+    expect(instance.batchRequests).not.toHaveBeenCalled()
+  })
+
+  it('splits the results of batched operations', async () => {
+    const instance = createInstance(() => Promise.resolve([{ data: { a: 1 } }, { data: { b: 2 } }]))
+    const batch = createBatch(instance as unknown as GraphQLClient)
+
+    await expect(Promise.all([batch('{ a }'), batch('{ b }', { id: 1 })])).resolves.toEqual([{ a: 1 }, { b: 2 }])
+
+    expect(instance.batchRequests).toHaveBeenCalledOnce()
+    expect(instance.batchRequests).toHaveBeenCalledWith([{ document: '{ a }' }, { document: '{ b }', variables: { id: 1 } }], undefined)
+  })
+
+  it('rejects the operations which resolved with errors', async () => {
+    const instance = createInstance(() => Promise.resolve([{ data: { a: 1 } }, { data: { b: null }, errors: [{ message: 'Invalid b' }] }]))
+    const batch = createBatch(instance as unknown as GraphQLClient)
+
+    const [a, b] = await Promise.allSettled([batch('{ a }'), batch('{ b }')])
+
+    expect(a).toEqual({ status: 'fulfilled', value: { a: 1 } })
+    expect(b.status).toBe('rejected')
+
+    const error = (b as PromiseRejectedResult).reason
+
+    expect(error).toBeInstanceOf(ClientError)
+    expect(error.response).toMatchObject({ data: { b: null }, errors: [{ message: 'Invalid b' }], status: 200 })
+    expect(error.request).toEqual({ query: '{ b }', variables: undefined })
+  })
+
+  it('splits the results of rejected batches', async () => {
+    const response = Object.assign([{ data: { a: 1 } }, { errors: [{ message: 'Invalid b' }] }], { status: 200 })
+    const instance = createInstance(() => Promise.reject(new ClientError(response as any, { query: ['{ a }', '{ b }'] })))
+    const batch = createBatch(instance as unknown as GraphQLClient)
+
+    const [a, b] = await Promise.allSettled([batch('{ a }'), batch('{ b }')])
+
+    expect(a).toEqual({ status: 'fulfilled', value: { a: 1 } })
+    expect((b as PromiseRejectedResult).reason.response.errors).toEqual([{ message: 'Invalid b' }])
+  })
+
+  it('rejects every operation of a failed batch', async () => {
+    const error = new Error('Network error')
+    const instance = createInstance(() => Promise.reject(error))
+    const batch = createBatch(instance as unknown as GraphQLClient)
+
+    const results = await Promise.allSettled([batch('{ a }'), batch('{ b }')])
+
+    expect(results).toEqual([{ status: 'rejected', reason: error }, { status: 'rejected', reason: error }])
+  })
+
+  it('batches operations by their headers, up to `max` operations', async () => {
+    const instance = createInstance(documents => Promise.resolve(documents.map(({ document }: { document: string }) => ({ data: { document } }))))
+    const batch = createBatch(instance as unknown as GraphQLClient, { max: 2 })
+
+    await Promise.all([batch('{ a }'), batch('{ b }'), batch('{ c }'), batch('{ d }', undefined, { 'X-Test': '1' }), batch('{ e }', undefined, { 'X-Test': '1' })])
+
+    expect(instance.batchRequests.mock.calls.map(([documents, headers]) => [documents.map(({ document }: { document: string }) => document), headers])).toEqual([
+      [['{ a }', '{ b }'], undefined],
+      [['{ d }', '{ e }'], { 'X-Test': '1' }]
+    ])
+    expect(instance.request).toHaveBeenCalledWith('{ c }', undefined, undefined)
+  })
+})
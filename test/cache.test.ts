@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest'
+import { addTypename, keyFields, identify, readCache, writeCache } from '../src/runtime/cache'
+import type { GqlCacheState } from '../src/types'
+
+const createCache = (): GqlCacheState => ({ entities: {}, results: {} })
+
+describe('addTypename', () => {
+  it('adds `__typename` to nested selection sets', () => {
+    const document = addTypename('query launches { launches { id rocket { name } } }')
+
+    expect(document).toContain('launches {\n    id\n    rocket {\n      name\n      __typename\n    }\n    __typename\n  }')
+    expect(document).not.toMatch(/^\s{2}__typename/m)
+  })
+
+  it('keeps existing `__typename` fields', () => {
+    const document = addTypename('query launches { launches { __typename id } }')
+
+    expect(document.match(/__typename/g)).toHaveLength(1)
+  })
+})
+
+describe('identify', () => {
+  it('identifies entities by `id` or `_id`', () => {
+    expect(identify({ __typename: 'Launch', id: 1 })).toBe('Launch:1')
+    expect(identify({ __typename: 'Launch', _id: 'a' })).toBe('Launch:a')
+    expect(identify({ __typename: 'Launch' })).toBeUndefined()
+    expect(identify({ id: 1 })).toBeUndefined()
+  })
+
+  it('identifies entities with key functions', () => {
+    const keys = { Launch: keyFields(['mission_name', 'launch_year']) }
+
+    expect(identify({ __typename: 'Launch', mission_name: 'CRS-1', launch_year: 2012 }, keys)).toBe('Launch:CRS-1:2012')
+    expect(identify({ __typename: 'Launch', mission_name: 'CRS-1' }, keys)).toBeUndefined()
+  })
+})
+
+describe('normalized cache', () => {
+  it('shares entities between results', () => {
+    const cache = createCache()
+
+    writeCache(cache, 'a', { launch: { __typename: 'Launch', id: 1, name: 'CRS-1' } })
+    writeCache(cache, undefined, { updateLaunch: { __typename: 'Launch', id: 1, name: 'CRS-2' } })
+
+    expect(cache.entities['Launch:1']).toEqual({ __typename: 'Launch', id: 1, name: 'CRS-2' })
+    expect(readCache(cache, 'a')).toEqual({ launch: { __typename: 'Launch', id: 1, name: 'CRS-2' } })
+    expect(readCache(cache, 'b')).toBeUndefined()
+  })
+
+  it('stores fields by their arguments', () => {
+    const cache = createCache()
+    const document = 'query user($first: Int) { user { __typename id posts(first: $first) { __typename id } } }'
+    const user = (posts: number) => ({ user: { __typename: 'User', id: 1, posts: Array.from({ length: posts }, (_, i) => ({ __typename: 'Post', id: i })) } })
+
+    writeCache(cache, 'first', user(1), undefined, { document, variables: { first: 1 } })
+    writeCache(cache, 'third', user(3), undefined, { document, variables: { first: 3 } })
+
+    expect(Object.keys(cache.entities['User:1'])).toEqual(['__typename', 'id', 'posts({"first":1})', 'posts({"first":3})'])
+    expect(readCache(cache, 'first', { document, variables: { first: 1 } })).toEqual(user(1))
+    expect(readCache(cache, 'third', { document, variables: { first: 3 } })).toEqual(user(3))
+  })
+
+  it('returns fields by their response key', () => {
+    const cache = createCache()
+    const document = `
+      query launches { latest: launches(limit: 1) { ...launch } launches(limit: 2) { ... on Launch { id } } }
+      fragment launch on Launch { __typename id name }
+    `
+    const data = {
+      latest: [{ __typename: 'Launch', id: 2, name: 'CRS-2' }],
+      launches: [{ __typename: 'Launch', id: 1 }, { __typename: 'Launch', id: 2 }]
+    }
+
+    writeCache(cache, 'a', data, undefined, { document })
+
+    expect(cache.results.a).toEqual({
+      'launches({"limit":1})': [{ __ref: 'Launch:2' }],
+      'launches({"limit":2})': [{ __ref: 'Launch:1' }, { __ref: 'Launch:2' }]
+    })
+    expect(readCache(cache, 'a', { document })).toEqual({
+      latest: [{ __typename: 'Launch', id: 2, name: 'CRS-2' }],
+      launches: [{ id: 1 }, { id: 2 }]
+    })
+  })
+
+  it('stores fields by their response key when the document is unavailable', () => {
+    const cache = createCache()
+
+    writeCache(cache, 'a', { launches: [] }, undefined, { document: '<hash>' })
+
+    expect(cache.results.a).toEqual({ launches: [] })
+    expect(readCache(cache, 'a', { document: '<hash>' })).toEqual({ launches: [] })
+  })
+
+  it('reads circular references', () => {
+    const cache = createCache()
+
+    writeCache(cache, 'a', { user: { __typename: 'User', id: 1, friend: { __typename: 'User', id: 1 } } })
+
+    const { user } = readCache(cache, 'a')
+
+    expect(user.friend).toBe(user)
+  })
+})
@@ -0,0 +1,55 @@
+import { fileURLToPath } from 'node:url'
+import { existsSync, readFileSync, statSync, writeFileSync } from 'node:fs'
+import { resolve } from 'node:path'
+import { describe, it, expect } from 'vitest'
+import { setup, $fetch, useTestContext } from '@nuxt/test-utils'
+
+const rootDir = fileURLToPath(new URL('./fixtures/runtime', import.meta.url))
+
+// the fixture is served by `nuxi dev`, the operations are recorded by the inspector
+await setup({
+  dev: true,
+  build: false,
+  rootDir
+})
+
+// wait for the contents of a file regenerated by the dev server
+const waitForContents = async (path: string, predicate: (contents: string) => boolean) => {
+  for (let i = 0; i < 100; i++) {
+    if (existsSync(path) && predicate(readFileSync(path, 'utf-8'))) { return }
+
+    await new Promise(resolve => setTimeout(resolve, 100))
+  }
+
+  throw new Error(`Timeout waiting for ${path} to be regenerated`)
+}
+
+describe('dev', () => {
+  it('records the operations executed on the server', async () => {
+    const result = await $fetch('/inspector')
+
+    expect(result).toMatch(/server: launches \(success\)/)
+    expect(result).toMatch(/server: partial \(error\)/)
+  })
+
+  it('only regenerates the clients of changed documents', async () => {
+    const { buildDir } = useTestContext().nuxt!.options
+    const document = resolve(rootDir, 'queries/other/origin.gql')
+    const source = readFileSync(document, 'utf-8')
+
+    const sdk = resolve(buildDir, 'gql/server/other.mjs')
+    const { mtimeMs } = statSync(resolve(buildDir, 'gql/server/default.mjs'))
+
+    try {
+      writeFileSync(document, `${source}\nquery remoteOrigin {\n  origin\n}\n`)
+
+      await waitForContents(sdk, contents => contents.includes('remoteOrigin'))
+
+      expect(statSync(resolve(buildDir, 'gql/server/default.mjs')).mtimeMs).toBe(mtimeMs)
+    } finally {
+      writeFileSync(document, source)
+    }
+
+    await waitForContents(sdk, contents => !contents.includes('remoteOrigin'))
+  }, 15000)
+})
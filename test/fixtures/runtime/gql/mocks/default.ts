@@ -0,0 +1,35 @@
+import { GraphQLError } from 'graphql'
+import type { GqlMockOptions } from '../../../../../src/types'
+
+// resolved fields, counted by their arguments
+const calls: Record<string, number> = {}
+
+const count = (key: string) => { calls[key] = (calls[key] || 0) + 1 }
+
+export default <GqlMockOptions>{
+  mocks: {
+    Launch: () => ({ mission_name: 'Starlink' })
+  },
+  resolvers: {
+    Query: {
+      launches: (_: unknown, { limit = 10 }: { limit?: number }) => {
+        count(`launches:${limit}`)
+
+        return Array.from({ length: limit }, (_, i) => ({ id: String(i + 1) }))
+      },
+      viewer: (_: unknown, __: unknown, { headers }: { headers: Headers }) => ({ authorization: headers.get('authorization'), cookie: headers.get('cookie') }),
+      me: (_: unknown, { tag }: { tag: string }, { headers }: { headers: Headers }) => {
+        if (headers.get('authorization') !== 'Bearer fresh') { throw new GraphQLError('Unauthenticated', { extensions: { code: 'UNAUTHENTICATED' } }) }
+
+        return tag
+      },
+      launch: (_: unknown, { id }: { id: string }) => ({ id }),
+      calls: (_: unknown, { key }: { key: string }) => calls[key] || 0,
+      status: () => { throw new GraphQLError('Status is unavailable') },
+      origin: () => 'default'
+    },
+    Mutation: {
+      renameLaunch: () => { throw new GraphQLError('Launches can\'t be renamed') }
+    }
+  }
+}
@@ -0,0 +1,9 @@
+import type { GqlMockOptions } from '../../../../../src/types'
+
+export default <GqlMockOptions>{
+  resolvers: {
+    Query: {
+      origin: () => 'other'
+    }
+  }
+}
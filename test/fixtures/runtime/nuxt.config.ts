@@ -0,0 +1,23 @@
+import GqlModule from '../../../src/module'
+
+export default defineNuxtConfig({
+  modules: [GqlModule],
+
+  'graphql-client': {
+    codegen: false,
+    inspector: true,
+    clients: {
+      default: {
+        host: 'http://localhost/graphql',
+        schema: './schema.graphql',
+        mock: true,
+        cache: true
+      },
+      other: {
+        host: 'http://localhost/other',
+        schema: './other-schema.graphql',
+        mock: true
+      }
+    }
+  }
+})
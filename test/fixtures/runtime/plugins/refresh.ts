@@ -0,0 +1,8 @@
+export default defineNuxtPlugin((nuxtApp) => {
+  const refreshes = useState('refreshes', () => 0)
+
+  nuxtApp.hook('gql:auth:refresh', ({ token }) => {
+    refreshes.value++
+    token.value = 'fresh'
+  })
+})
@@ -0,0 +1,7 @@
+export default defineEventHandler(async (event) => {
+  const { launches } = await GqlLaunches({ limit: 2 })
+
+  const { viewer } = await useGqlServer(event, { forwardCookies: true, forwardAuthorization: true })('viewer')
+
+  return { launches, viewer }
+})
@@ -0,0 +1,36 @@
+import 'node-fetch-native/polyfill'
+import { readFileSync } from 'node:fs'
+import { fileURLToPath } from 'node:url'
+import { describe, it, expect } from 'vitest'
+import { GraphQLClient } from 'graphql-request'
+import { mockFetch } from '../src/runtime/mock'
+import mocks from '../examples/basic/gql/mocks/default'
+
+const example = (path: string) => readFileSync(fileURLToPath(new URL(`../examples/basic/${path}`, import.meta.url)), 'utf-8')
+
+// operations of the basic example, executed against it's schema and mocks
+const client = new GraphQLClient('http://localhost/graphql', { fetch: mockFetch(example('schema.graphql'), mocks) })
+
+describe('mock mode', () => {
+  it('executes operations against the schema', async () => {
+    const { launches } = await client.request(example('queries/launches.gql'), { limit: 10 })
+
+    expect(launches).toHaveLength(10)
+    expect(launches[0]).toMatchObject({ id: '1', mission_name: 'Starlink', launch_year: '2020', links: { flickr_images: [] } })
+    expect(typeof launches[0].rocket.rocket_name).toBe('string')
+  })
+
+  it('executes batched and GET requests', async () => {
+    const results = await client.batchRequests([{ document: 'query { launches(limit: 1) { id } }' }, { document: 'query { launches(limit: 2) { id } }' }])
+
+    expect(results.map(({ data }: { data: any }) => data.launches.length)).toEqual([1, 2])
+
+    const get = new GraphQLClient('http://localhost/graphql', { method: 'GET', jsonSerializer: JSON, fetch: mockFetch(example('schema.graphql'), mocks) })
+
+    await expect(get.request('query launches($limit: Int) { launches(limit: $limit) { id } }', { limit: 3 })).resolves.toEqual({ launches: [{ id: '1' }, { id: '2' }, { id: '3' }] })
+  })
+
+  it('reports validation errors', async () => {
+    await expect(client.request('query { ships { id } }')).rejects.toMatchObject({ response: { errors: [{ message: 'Cannot query field "ships" on type "Query".' }] } })
+  })
+})
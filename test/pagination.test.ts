@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest'
+import { getPath, setPath, mergePage, hasMore } from '../src/runtime/pagination'
+
+describe('paths', () => {
+  const data = { user: { name: 'Rick', posts: { nodes: [1] } } }
+
+  it('retrieves values at dot notated paths', () => {
+    expect(getPath(data, 'user.posts.nodes')).toEqual([1])
+    expect(getPath(data, 'user.comments.nodes')).toBeUndefined()
+  })
+
+  it('sets values without mutating the data', () => {
+    const result = setPath(data, 'user.posts.nodes', [1, 2])
+
+    expect(result).toEqual({ user: { name: 'Rick', posts: { nodes: [1, 2] } } })
+    expect(data.user.posts.nodes).toEqual([1])
+    expect(setPath(undefined, 'user.posts', [])).toEqual({ user: { posts: [] } })
+  })
+})
+
+describe('mergePage', () => {
+  it('concatenates relay connections and replaces their page info', () => {
+    const current = { edges: [{ node: 1 }], pageInfo: { endCursor: 'a', hasNextPage: true } }
+    const next = { edges: [{ node: 2 }], pageInfo: { endCursor: 'b', hasNextPage: false } }
+
+    expect(mergePage('relay', current, next)).toEqual({ edges: [{ node: 1 }, { node: 2 }], pageInfo: { endCursor: 'b', hasNextPage: false } })
+    expect(mergePage('relay', { nodes: [1] }, { nodes: [2] })).toEqual({ nodes: [1, 2] })
+  })
+
+  it('concatenates offset lists', () => {
+    expect(mergePage('offset', [1, 2], [3])).toEqual([1, 2, 3])
+    expect(mergePage('offset', undefined, [1])).toEqual([1])
+  })
+})
+
+describe('hasMore', () => {
+  it('follows the page info of relay connections', () => {
+    expect(hasMore({ strategy: 'relay', path: 'posts' }, { pageInfo: { hasNextPage: true } })).toBe(true)
+    expect(hasMore({ strategy: 'relay', path: 'posts' }, { pageInfo: { hasNextPage: false } })).toBe(false)
+    expect(hasMore({ strategy: 'relay', path: 'posts' }, undefined)).toBe(false)
+  })
+
+  it('compares offset pages with their limit', () => {
+    expect(hasMore({ strategy: 'offset', path: 'posts' }, [1, 2], { limit: 2 })).toBe(true)
+    expect(hasMore({ strategy: 'offset', path: 'posts' }, [1], { limit: 2 })).toBe(false)
+    expect(hasMore({ strategy: 'offset', path: 'posts', limitVariable: 'first' }, [1], { first: 1 })).toBe(true)
+    expect(hasMore({ strategy: 'offset', path: 'posts' }, [1])).toBe(true)
+    expect(hasMore({ strategy: 'offset', path: 'posts' }, [])).toBe(false)
+  })
+})
@@ -0,0 +1,99 @@
+import { describe, it, expect, vi } from 'vitest'
+import { persistedFetch } from '../src/runtime/persisted'
+
+const queries = {
+  launchesHash: { operation: 'launches', type: 'query', document: 'query launches { launches { id } }' },
+  strictHash: { operation: 'strict', type: 'query' },
+  addLaunchHash: { operation: 'addLaunch', type: 'mutation', document: 'mutation addLaunch { addLaunch { id } }' }
+}
+
+const extensions = (hash: string) => ({ persistedQuery: { version: 1, sha256Hash: hash } })
+
+// fetcher resolving the specified results in turn
+const createFetcher = (...results: any[]) => vi.fn(() => {
+  const result = results.shift()
+
+  return Promise.resolve({ result, clone: () => ({ json: () => Promise.resolve(result) }) } as unknown as Response)
+})
+
+const post = (body: any): RequestInit => ({ method: 'POST', headers: { 'Content-Type': 'application/json', 'X-Test': '1' }, body: JSON.stringify(body) })
+
+describe('persistedFetch', () => {
+  it('sends queries as GET requests with their hash', async () => {
+    const fetcher = createFetcher({ data: { launches: [] } })
+
+    const response = await persistedFetch(queries, fetcher)('https://api/graphql', post({ query: 'launchesHash', variables: { limit: 1 } }))
+
+    expect(fetcher).toHaveBeenCalledOnce()
+
+    const [url, init] = fetcher.mock.calls[0] as unknown as [string, RequestInit]
+    const params = new URL(url).searchParams
+
+    expect(url.startsWith('https://api/graphql?')).toBe(true)
+    expect(init).toMatchObject({ method: 'GET', headers: { 'X-Test': '1' }, body: undefined })
+    expect(params.get('operationName')).toBe('launches')
+    expect(JSON.parse(params.get('variables')!)).toEqual({ limit: 1 })
+    expect(JSON.parse(params.get('extensions')!)).toEqual(extensions('launchesHash'))
+    expect(params.has('query')).toBe(false)
+    expect(response).toMatchObject({ result: { data: { launches: [] } } })
+  })
+
+  it('sends mutations as POST requests with their hash', async () => {
+    const fetcher = createFetcher({ data: { addLaunch: { id: 1 } } })
+
+    await persistedFetch(queries, fetcher)('https://api/graphql', post({ query: 'addLaunchHash' }))
+
+    const [url, init] = fetcher.mock.calls[0] as unknown as [string, RequestInit]
+
+    expect(url).toBe('https://api/graphql')
+    expect(init.method).toBe('POST')
+    expect(JSON.parse(init.body as string)).toEqual({ operationName: 'addLaunch', extensions: extensions('addLaunchHash') })
+  })
+
+  it('sends the document once the hash isn\'t recognized', async () => {
+    const fetcher = createFetcher({ errors: [{ message: 'PersistedQueryNotFound' }] }, { data: { launches: [] } })
+
+    const response = await persistedFetch(queries, fetcher)('https://api/graphql', post({ query: 'launchesHash' }))
+
+    expect(fetcher).toHaveBeenCalledTimes(2)
+
+    const [url, init] = fetcher.mock.calls[1] as unknown as [string, RequestInit]
+
+    expect(url).toBe('https://api/graphql')
+    expect(init.method).toBe('POST')
+    expect(JSON.parse(init.body as string)).toEqual({ operationName: 'launches', extensions: extensions('launchesHash'), query: queries.launchesHash.document })
+    expect(response).toMatchObject({ result: { data: { launches: [] } } })
+  })
+
+  it('doesn\'t send the document of strict queries', async () => {
+    const fetcher = createFetcher({ errors: [{ extensions: { code: 'PERSISTED_QUERY_NOT_FOUND' } }] })
+
+    const response = await persistedFetch(queries, fetcher)('https://api/graphql', post({ query: 'strictHash' }))
+
+    expect(fetcher).toHaveBeenCalledOnce()
+    expect(response).toMatchObject({ result: { errors: [{ extensions: { code: 'PERSISTED_QUERY_NOT_FOUND' } }] } })
+  })
+
+  it('sends batched operations with their hash and document', async () => {
+    const fetcher = createFetcher([])
+
+    await persistedFetch(queries, fetcher)('https://api/graphql', post([{ query: 'launchesHash', variables: { limit: 1 } }, { query: 'strictHash' }, { query: '{ unknown }' }]))
+
+    const [, init] = fetcher.mock.calls[0] as unknown as [string, RequestInit]
+
+    expect(JSON.parse(init.body as string)).toEqual([
+      { operationName: 'launches', variables: { limit: 1 }, extensions: extensions('launchesHash'), query: queries.launchesHash.document },
+      { operationName: 'strict', extensions: extensions('strictHash') },
+      { query: '{ unknown }' }
+    ])
+  })
+
+  it('forwards unknown operations as is', async () => {
+    const fetcher = createFetcher({ data: {} })
+    const init = post({ query: '{ unknown }' })
+
+    await persistedFetch(queries, fetcher)('https://api/graphql', init)
+
+    expect(fetcher).toHaveBeenCalledWith('https://api/graphql', init)
+  })
+})
@@ -0,0 +1,87 @@
+import 'node-fetch-native/polyfill'
+import { createServer } from 'node:http'
+import type { Server } from 'node:http'
+import type { AddressInfo } from 'node:net'
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest'
+import { createApp, createRouter, toNodeListener } from 'h3'
+
+const config = {
+  'graphql-client': {
+    clients: {
+      default: {
+        host: '',
+        proxy: true,
+        proxyCookies: true,
+        token: { name: 'Authorization', type: 'Bearer', value: 'private' },
+        headers: { 'X-Public': 'public', serverOnly: { 'X-Server': 'server' } }
+      }
+    }
+  },
+  public: { 'graphql-client': { clients: { default: { proxy: true } } } }
+}
+
+// the runtime config is shared between requests
+vi.mock('#imports', () => ({ useRuntimeConfig: () => config }))
+vi.mock('#gql-server/proxy', () => ({ default: {} }))
+
+const listen = (server: Server) => new Promise<string>(resolve => server.listen(0, () => resolve(`http://localhost:${(server.address() as AddressInfo).port}`)))
+
+// GraphQL API responding with the headers it received
+const upstream = createServer((req, res) => {
+  res.setHeader('content-type', 'application/json')
+  res.setHeader('set-cookie', ['a=1; Expires=Wed, 21 Oct 2026 07:28:00 GMT; Path=/', 'b=2; HttpOnly'])
+  res.end(JSON.stringify({ data: { headers: req.headers } }))
+})
+
+const server = createServer()
+
+let url: string
+
+beforeAll(async () => {
+  config['graphql-client'].clients.default.host = await listen(upstream)
+
+  const { default: proxy } = await import('../src/runtime/server/proxy')
+
+  server.on('request', toNodeListener(createApp().use(createRouter().use('/api/_gql/:client', proxy))))
+  url = await listen(server)
+})
+
+afterAll(() => {
+  upstream.close()
+  server.close()
+})
+
+const getSetCookies = (headers: any): string[] => typeof headers.getSetCookie === 'function' ? headers.getSetCookie() : headers.raw()['set-cookie']
+
+const request = (headers: Record<string, string> = {}) => fetch(`${url}/api/_gql/default`, {
+  method: 'POST',
+  headers: { 'content-type': 'application/json', ...headers },
+  body: JSON.stringify({ query: '{ headers }' })
+})
+
+describe('proxy', () => {
+  it('applies the headers and token of the client to every request', async () => {
+    for (let i = 0; i < 2; i++) {
+      const { data } = await request().then(r => r.json())
+
+      expect(data.headers).toMatchObject({ 'x-public': 'public', 'x-server': 'server', authorization: 'Bearer private' })
+      expect(data.headers).not.toHaveProperty('serveronly')
+    }
+
+    expect(config['graphql-client'].clients.default.headers.serverOnly).toEqual({ 'X-Server': 'server' })
+  })
+
+  it('forwards the cookies of the request and each cookie of the response', async () => {
+    const response = await request({ cookie: 'session=1', authorization: 'Bearer user' })
+    const { data } = await response.json()
+
+    expect(data.headers).toMatchObject({ cookie: 'session=1', authorization: 'Bearer user' })
+    expect(getSetCookies(response.headers)).toEqual(['a=1; Expires=Wed, 21 Oct 2026 07:28:00 GMT; Path=/', 'b=2; HttpOnly'])
+  })
+
+  it('rejects clients which aren\'t proxied', async () => {
+    const response = await fetch(`${url}/api/_gql/other`, { method: 'POST', body: '{}' })
+
+    expect(response.status).toBe(404)
+  })
+})
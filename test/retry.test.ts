@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest'
+import { abortable, isAuthFailure, resolveRetry, retryDelay, shouldRetry } from '../src/runtime/retry'
+
+const networkError = new TypeError('fetch failed')
+const statusError = (status: number, errors?: object[]) => ({ response: { status, errors } })
+
+describe('resolveRetry', () => {
+  it('resolves the first provided option', () => {
+    expect(resolveRetry(undefined, undefined)).toBeUndefined()
+    expect(resolveRetry(false, 5)).toBeUndefined()
+    expect(resolveRetry(undefined, true)).toMatchObject({ count: 3, delay: 300, backoff: 'exponential' })
+    expect(resolveRetry(5, true)).toMatchObject({ count: 5, delay: 300 })
+    expect(resolveRetry({ delay: 100, mutations: true })).toMatchObject({ count: 3, delay: 100, mutations: true })
+  })
+})
+
+describe('shouldRetry', () => {
+  const retry = resolveRetry(true)
+
+  it('retries network errors and retryable status codes of queries', () => {
+    expect(shouldRetry(retry, { attempt: 1, operationType: 'query', error: networkError })).toBe(true)
+    expect(shouldRetry(retry, { attempt: 1, operationType: 'query', error: statusError(503) })).toBe(true)
+    expect(shouldRetry(retry, { attempt: 1, operationType: 'query', error: statusError(400) })).toBe(false)
+    expect(shouldRetry(retry, { attempt: 1, operationType: 'query', timedOut: true, error: networkError })).toBe(true)
+  })
+
+  it('stops once the retries are exhausted', () => {
+    expect(shouldRetry(retry, { attempt: 3, operationType: 'query', error: networkError })).toBe(true)
+    expect(shouldRetry(retry, { attempt: 4, operationType: 'query', error: networkError })).toBe(false)
+    expect(shouldRetry(undefined, { attempt: 1, operationType: 'query', error: networkError })).toBe(false)
+  })
+
+  it('only retries mutations when enabled', () => {
+    expect(shouldRetry(retry, { attempt: 1, operationType: 'mutation', error: networkError })).toBe(false)
+    expect(shouldRetry(resolveRetry({ mutations: true }), { attempt: 1, operationType: 'mutation', error: networkError })).toBe(true)
+  })
+
+  it('retries the enabled error types', () => {
+    const graphql = resolveRetry({ errorTypes: ['graphql'] })
+
+    expect(shouldRetry(retry, { attempt: 1, operationType: 'query', error: statusError(200, [{ message: 'Error' }]) })).toBe(false)
+    expect(shouldRetry(graphql, { attempt: 1, operationType: 'query', error: statusError(200, [{ message: 'Error' }]) })).toBe(true)
+    expect(shouldRetry(graphql, { attempt: 1, operationType: 'query', error: networkError })).toBe(false)
+    expect(shouldRetry(graphql, { attempt: 1, operationType: 'query', timedOut: true, error: networkError })).toBe(false)
+  })
+
+  it('doesn\'t retry aborted requests', () => {
+    expect(shouldRetry(retry, { attempt: 1, operationType: 'query', error: { name: 'AbortError' } })).toBe(false)
+  })
+})
+
+describe('retryDelay', () => {
+  it('applies the backoff strategy', () => {
+    const retry = resolveRetry({ delay: 100 })!
+
+    expect([1, 2, 3].map(attempt => retryDelay(retry, attempt))).toEqual([100, 200, 400])
+    expect([1, 2, 3].map(attempt => retryDelay({ ...retry, backoff: 'linear' }, attempt))).toEqual([100, 200, 300])
+    expect([1, 2, 3].map(attempt => retryDelay({ ...retry, backoff: 'fixed' }, attempt))).toEqual([100, 100, 100])
+  })
+})
+
+describe('isAuthFailure', () => {
+  it('matches status codes and error codes', () => {
+    const signals = { statusCodes: [401], errorCodes: ['UNAUTHENTICATED'] }
+
+    expect(isAuthFailure(signals, statusError(401))).toBe(true)
+    expect(isAuthFailure(signals, statusError(200, [{ message: 'Error', extensions: { code: 'UNAUTHENTICATED' } }]))).toBe(true)
+    expect(isAuthFailure(signals, statusError(403, [{ message: 'Error', extensions: { code: 'FORBIDDEN' } }]))).toBe(false)
+    expect(isAuthFailure({}, networkError)).toBe(false)
+  })
+})
+
+describe('abortable', () => {
+  it('settles with the request', async () => {
+    const promise = Promise.resolve(1)
+
+    expect(abortable(promise)).toBe(promise)
+    await expect(abortable(promise, new AbortController().signal)).resolves.toBe(1)
+    await expect(abortable(Promise.reject(networkError), new AbortController().signal)).rejects.toBe(networkError)
+  })
+
+  it('rejects once the signal is aborted', async () => {
+    const controller = new AbortController()
+    const pending = abortable(new Promise(() => {}), controller.signal)
+
+    controller.abort()
+
+    await expect(pending).rejects.toMatchObject({ name: 'AbortError' })
+    await expect(abortable(new Promise(() => {}), controller.signal)).rejects.toMatchObject({ name: 'AbortError' })
+  })
+})
@@ -0,0 +1,61 @@
+import { fileURLToPath } from 'node:url'
+import { describe, it, expect } from 'vitest'
+import { setup, $fetch } from '@nuxt/test-utils'
+
+// the fixture's operations are executed against mocks of it's schema
+await setup({
+  server: true,
+  rootDir: fileURLToPath(new URL('./fixtures/runtime', import.meta.url))
+})
+
+describe('runtime', () => {
+  it('shares identical queries in flight', async () => {
+    const result = await $fetch('/dedupe')
+    expect(result).toContain('<p>Requests: 1</p>')
+  }, 15000)
+
+  it('replays failed requests once the token is refreshed', async () => {
+    const result = await $fetch('/refresh')
+
+    expect(result).toContain('<p>Results: a, b</p>')
+    expect(result).toContain('<p>Refreshes: 1</p>')
+  })
+
+  it('rolls back optimistic updates of failed mutations', async () => {
+    const result = await $fetch('/optimistic')
+
+    expect(result).toContain('<p>Optimistic: Renamed</p>')
+    expect(result).toContain('<p>Rolled back: Starlink</p>')
+    expect(result).toContain('<p>Error: Launches can&#39;t be renamed</p>')
+  })
+
+  it('refetches queries when their reactive variables change', async () => {
+    const result = await $fetch('/reactive')
+
+    expect(result).toContain('<p>Initial: 1</p>')
+    expect(result).toContain('<p>Refetched: 2</p>')
+  })
+
+  it('keeps the partial data and errors according to the error policy of the call', async () => {
+    const result = await $fetch('/partial')
+
+    expect(result).toContain('<p>All: 1, Status is unavailable</p>')
+    expect(result).toContain('<p>Ignore: 2, none</p>')
+    expect(result).toContain('<p>None: null, Status is unavailable</p>')
+  })
+
+  it('executes operations declared by multiple clients with client scoped functions', async () => {
+    const result = await $fetch('/namespaced')
+
+    expect(result).toContain('<p>Origins: default, other, other</p>')
+  })
+
+  it('executes operations within server routes', async () => {
+    const result = await $fetch('/api/viewer', { headers: { cookie: 'session=1', authorization: 'Bearer token' } })
+
+    expect(result).toEqual({
+      launches: [{ id: '1', mission_name: 'Starlink' }, { id: '2', mission_name: 'Starlink' }],
+      viewer: { authorization: 'Bearer token', cookie: 'session=1' }
+    })
+  })
+})
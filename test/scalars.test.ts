@@ -0,0 +1,107 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { describe, it, expect, afterAll } from 'vitest'
+import { buildSchema } from 'graphql'
+import { collectScalars } from '../src/schema'
+import { transformScalars, transformOperationScalars } from '../src/runtime/scalars'
+
+const dir = mkdtempSync(join(tmpdir(), 'gql-scalars-'))
+
+afterAll(() => rmSync(dir, { recursive: true }))
+
+const writeDocument = (name: string, document: string) => {
+  const path = join(dir, `${name}.gql`)
+  writeFileSync(path, document)
+
+  return path
+}
+
+const schema = buildSchema(`
+  scalar Date
+
+  input LaunchFilter { after: Date, and: LaunchFilter }
+
+  interface Node { id: ID! }
+
+  type Launch implements Node { id: ID!, name: String, date: Date, dates: [Date!] }
+
+  type Query { launches(filter: LaunchFilter, since: Date): [Launch!]!, node(id: ID!): Node }
+`)
+
+describe('collectScalars', () => {
+  it('collects the paths of custom scalars in results', () => {
+    const document = writeDocument('results', `
+      query launches { launches { id name launched: date ...dates } }
+      query node { node(id: "1") { id ... on Launch { date } } }
+      query names { launches { name } }
+      fragment dates on Launch { dates }
+    `)
+
+    const scalars = collectScalars(schema, [document])
+
+    expect(scalars.launches).toEqual({ result: { launches: { launched: 'Date', dates: 'Date' } } })
+    expect(scalars.node).toEqual({ result: { node: { date: 'Date' } } })
+    expect(scalars.names).toBeUndefined()
+  })
+
+  it('collects the paths of custom scalars in variables', () => {
+    const document = writeDocument('variables', 'query filtered($filter: LaunchFilter, $since: Date) { launches(filter: $filter, since: $since) { id } }')
+
+    const { filtered } = collectScalars(schema, [document])
+
+    expect(filtered.result).toBeUndefined()
+    expect(filtered.variables?.since).toBe('Date')
+    expect(filtered.variables?.filter).toMatchObject({ after: 'Date', and: { after: 'Date', and: { after: 'Date' } } })
+  })
+})
+
+describe('transformScalars', () => {
+  const scalars = {
+    Date: {
+      parse: (value: string) => new Date(value),
+      serialize: (value: Date) => value.toISOString()
+    }
+  }
+
+  it('parses custom scalars of a result', () => {
+    const data = { launches: [{ id: '1', date: '2020-01-01T00:00:00.000Z', dates: ['2020-01-02T00:00:00.000Z'] }, null] }
+
+    const result = transformScalars(data, { launches: { date: 'Date', dates: 'Date' } }, scalars, 'parse')
+
+    expect(result.launches[0].date).toEqual(new Date('2020-01-01'))
+    expect(result.launches[0].dates).toEqual([new Date('2020-01-02')])
+    expect(result.launches[1]).toBeNull()
+    expect(data.launches[0]!.date).toBe('2020-01-01T00:00:00.000Z')
+  })
+
+  it('serializes custom scalars of variables', () => {
+    const variables = { filter: { after: new Date('2020-01-01') }, limit: 5 }
+
+    expect(transformScalars(variables, { filter: { after: 'Date' } }, scalars, 'serialize')).toEqual({ filter: { after: '2020-01-01T00:00:00.000Z' }, limit: 5 })
+  })
+
+  it('ignores scalars without functions', () => {
+    expect(transformScalars({ date: 1 }, { date: 'Timestamp' }, scalars, 'parse')).toEqual({ date: 1 })
+    expect(transformScalars(undefined, { date: 'Date' }, scalars, 'serialize')).toBeUndefined()
+  })
+})
+
+describe('transformOperationScalars', () => {
+  const clientScalars = {
+    scalars: { Date: { parse: (value: string) => new Date(value), serialize: (value: Date) => value.toISOString() } },
+    operations: { launches: { result: { launches: { date: 'Date' } }, variables: { after: 'Date' } } }
+  }
+
+  it('transforms the results and variables of an operation', () => {
+    expect(transformOperationScalars(clientScalars, 'launches', { launches: [{ date: '2020-01-01T00:00:00.000Z' }] }, 'parse')).toEqual({ launches: [{ date: new Date('2020-01-01') }] })
+    expect(transformOperationScalars(clientScalars, 'launches', { after: new Date('2020-01-01') }, 'serialize')).toEqual({ after: '2020-01-01T00:00:00.000Z' })
+  })
+
+  it('returns values of operations and clients without custom scalars', () => {
+    const data = { ships: [{ date: '2020-01-01' }] }
+
+    expect(transformOperationScalars(clientScalars, 'ships', data, 'parse')).toEqual(data)
+    expect(transformOperationScalars(undefined, 'launches', data, 'parse')).toBe(data)
+  })
+})
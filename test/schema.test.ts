@@ -0,0 +1,123 @@
+import { mkdtempSync, rmSync, utimesSync, writeFileSync } from 'node:fs'
+import { createServer } from 'node:http'
+import type { AddressInfo } from 'node:net'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { describe, it, expect, afterAll } from 'vitest'
+import { buildSchema, graphql } from 'graphql'
+import { createResolver } from '@nuxt/kit'
+import { findSchemaChanges, loadClientSchema, clearClientSchemas } from '../src/schema'
+
+const dir = mkdtempSync(join(tmpdir(), 'gql-schema-'))
+
+afterAll(() => rmSync(dir, { recursive: true }))
+
+const writeDocument = (name: string, document: string) => {
+  const path = join(dir, `${name}.gql`)
+  writeFileSync(path, document)
+
+  return path
+}
+
+const previous = buildSchema(`
+  enum Status { ACTIVE, RETIRED }
+
+  input ShipFilter { status: Status }
+
+  type Ship { id: ID!, name: String, status: Status, weight: Int }
+
+  type Query { ships(filter: ShipFilter): [Ship!]!, ship(id: ID!): Ship }
+`)
+
+const documents = [
+  writeDocument('ships', 'query ships($filter: ShipFilter) { ships(filter: $filter) { id ...ship } }\nfragment ship on Ship { name weight }'),
+  writeDocument('ship', 'query ship { ship(id: "1") { id status } }')
+]
+
+describe('findSchemaChanges', () => {
+  it('reports no changes of identical schemas', () => {
+    expect(findSchemaChanges(previous, previous, documents)).toEqual([])
+  })
+
+  it('classifies changes along with the operations they affect', () => {
+    const schema = buildSchema(`
+      enum Status { ACTIVE, RETIRED, LOST }
+
+      input ShipFilter { status: Status }
+
+      type Ship { id: ID!, name: String, status: Status, year: Int }
+
+      type Harbor { id: ID! }
+
+      type Query { ships(filter: ShipFilter): [Ship!]!, ship(id: ID!): Ship, harbors: [Harbor!]! }
+    `)
+
+    const changes = findSchemaChanges(previous, schema, documents)
+
+    expect(changes).toContainEqual({ type: 'FIELD_REMOVED', criticality: 'breaking', description: 'Ship.weight was removed.', operations: ['ships'] })
+    expect(changes).toContainEqual({ type: 'VALUE_ADDED_TO_ENUM', criticality: 'dangerous', description: 'LOST was added to enum type Status.', operations: ['ship'] })
+    expect(changes).toContainEqual({ type: 'TYPE_ADDED', criticality: 'safe', description: 'Harbor was added.', operations: [] })
+    expect(changes).toContainEqual({ type: 'FIELD_ADDED', criticality: 'safe', description: 'Ship.year was added.', operations: [] })
+    expect(changes).toContainEqual({ type: 'FIELD_ADDED', criticality: 'safe', description: 'Query.harbors was added.', operations: [] })
+  })
+
+  it('matches changes of input types with the operations using them', () => {
+    const schema = buildSchema(`
+      enum Status { ACTIVE, RETIRED }
+
+      input ShipFilter { status: Status, name: String! }
+
+      type Ship { id: ID!, name: String, status: Status, weight: Int }
+
+      type Query { ships(filter: ShipFilter): [Ship!]!, ship(id: ID!): Ship }
+    `)
+
+    expect(findSchemaChanges(previous, schema, documents)).toEqual([
+      { type: 'REQUIRED_INPUT_FIELD_ADDED', criticality: 'breaking', description: 'A required field name on input type ShipFilter was added.', operations: ['ships'] }
+    ])
+  })
+})
+
+describe('loadClientSchema', () => {
+  it('reloads schema files once they\'re modified', async () => {
+    const path = join(dir, 'schema.graphql')
+    writeFileSync(path, 'type Query { ships: [String] }')
+
+    expect((await loadClientSchema({ host: '', schema: path }, createResolver(dir))).getQueryType()?.getFields()).toHaveProperty('ships')
+
+    writeFileSync(path, 'type Query { harbors: [String] }')
+    utimesSync(path, new Date(), new Date(Date.now() + 1000))
+
+    expect((await loadClientSchema({ host: '', schema: path }, createResolver(dir))).getQueryType()?.getFields()).toHaveProperty('harbors')
+  })
+
+  it('reuses introspected schemas until they\'re cleared', async () => {
+    let requests = 0
+
+    const server = createServer((req, res) => {
+      let body = ''
+      req.on('data', (chunk) => { body += chunk })
+      req.on('end', async () => {
+        requests++
+        const { query, variables, operationName } = JSON.parse(body)
+        res.setHeader('content-type', 'application/json')
+        res.end(JSON.stringify(await graphql({ schema: previous, source: query, variableValues: variables, operationName })))
+      })
+    })
+
+    const host = await new Promise<string>(resolve => server.listen(0, () => resolve(`http://localhost:${(server.address() as AddressInfo).port}/graphql`)))
+
+    try {
+      await loadClientSchema({ host })
+      await loadClientSchema({ host })
+      expect(requests).toBe(1)
+
+      clearClientSchemas()
+
+      expect((await loadClientSchema({ host })).getType('Ship')).toBeDefined()
+      expect(requests).toBe(2)
+    } finally {
+      server.close()
+    }
+  })
+})
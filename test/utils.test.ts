@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest'
+import { extractDocuments, findReference } from '../src/utils'
+
+describe('extractDocuments', () => {
+  it('extracts tagged template literals', () => {
+    const source = [
+      'import { gql } from \'graphql-tag\'',
+      '',
+      'const launches = gql`query launches { launches { id } }`',
+      'const ships = graphql`',
+      '  query ships { ships { id } }',
+      '`'
+    ].join('\n')
+
+    const documents = extractDocuments(source)
+
+    expect(documents.map(({ document }) => document.trim())).toEqual(['query launches { launches { id } }', 'query ships { ships { id } }'])
+    expect(documents.every(({ client }) => client === undefined)).toBe(true)
+  })
+
+  it('preserves the line numbers of the source file', () => {
+    const source = 'const a = 1\n\nconst launches = gql`\n  query launches { launches { id } }\n`'
+
+    const [{ document }] = extractDocuments(source)
+
+    expect(document.split('\n').findIndex(line => line.includes('query launches'))).toBe(source.split('\n').findIndex(line => line.includes('query launches')))
+  })
+
+  it('extracts <graphql> blocks of single file components', () => {
+    const source = [
+      '<template><div /></template>',
+      '',
+      '<graphql>',
+      'query launches { launches { id } }',
+      '</graphql>',
+      '',
+      '<graphql client="rmorty">',
+      'query characters { characters { id } }',
+      '</graphql>'
+    ].join('\n')
+
+    const documents = extractDocuments(source)
+
+    expect(documents.map(({ document, client }) => [document.trim(), client])).toEqual([
+      ['query launches { launches { id } }', undefined],
+      ['query characters { characters { id } }', 'rmorty']
+    ])
+    expect(documents[1].document.split('\n').findIndex(line => line.includes('query characters'))).toBe(7)
+  })
+
+  it('reads the client of `# @client` comments', () => {
+    const [{ client }] = extractDocuments('gql`\n  # @client spacex\n  query launches { launches { id } }\n`')
+
+    expect(client).toBe('spacex')
+  })
+
+  it('reads the client option of tags', () => {
+    const documents = extractDocuments('const a = gql({ client: \'spacex\' })`query launches { launches { id } }`\nconst b = graphql( { client: "rmorty", } )`query characters { characters { id } }`')
+
+    expect(documents.map(({ document, client }) => [document.trim(), client])).toEqual([
+      ['query launches { launches { id } }', 'spacex'],
+      ['query characters { characters { id } }', 'rmorty']
+    ])
+  })
+
+  it('skips templates with expressions and empty documents', () => {
+    // eslint-disable-next-line no-template-curly-in-string
+    const source = 'const a = gql`query a { ${field} }`\nconst b = gql` `\nconst c = `query c { c }`'
+
+    expect(extractDocuments(source)).toEqual([])
+  })
+})
+
+// ESTree nodes as produced by `this.parse` of Rollup plugins
+const identifier = (name: string, start = 0) => ({ type: 'Identifier', name, start })
+const call = (callee: object) => ({ type: 'ExpressionStatement', expression: { type: 'CallExpression', callee, arguments: [] } })
+
+describe('findReference', () => {
+  it('finds references to identifiers', () => {
+    const ast = { type: 'Program', body: [call(identifier('GqlLaunches', 12))] }
+
+    expect(findReference(ast, ['GqlLaunches'])).toEqual({ name: 'GqlLaunches', start: 12 })
+  })
+
+  it('ignores strings and the keys of properties and members', () => {
+    const ast = {
+      type: 'Program',
+      body: [
+        { type: 'ExpressionStatement', expression: { type: 'Literal', value: 'GqlLaunches' } },
+        call({ type: 'MemberExpression', computed: false, object: identifier('sdk'), property: identifier('GqlLaunches') }),
+        { type: 'ExpressionStatement', expression: { type: 'ObjectExpression', properties: [{ type: 'Property', computed: false, key: identifier('GqlLaunches'), value: { type: 'Literal', value: 1 } }] } }
+      ]
+    }
+
+    expect(findReference(ast, ['GqlLaunches'])).toBeUndefined()
+  })
+
+  it('finds unresolved identifiers of compiled templates', () => {
+    const ast = { type: 'Program', body: [call({ type: 'MemberExpression', computed: false, object: identifier('_ctx'), property: identifier('GqlLaunches', 5) })] }
+
+    expect(findReference(ast, ['GqlLaunches'])).toEqual({ name: 'GqlLaunches', start: 5 })
+  })
+})
@@ -0,0 +1,66 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { describe, it, expect, afterAll } from 'vitest'
+import { checkDocuments, formatDiagnostic } from '../src/validate'
+
+const dir = mkdtempSync(join(tmpdir(), 'gql-validate-'))
+
+afterAll(() => rmSync(dir, { recursive: true }))
+
+const writeDocument = (name: string, document: string) => {
+  const path = join(dir, `${name}.gql`)
+  writeFileSync(path, document)
+
+  return path
+}
+
+describe('checkDocuments', () => {
+  it('reports duplicate operation and fragment names of a client', () => {
+    const launches = writeDocument('launches', 'query launches { launches { ...launch } }\nfragment launch on Launch { id }')
+    const duplicate = writeDocument('duplicate', '\nquery launches { launches { id } }\nfragment launch on Launch { id }')
+
+    const diagnostics = checkDocuments({ default: [launches, duplicate] }, [launches, duplicate])
+
+    expect(diagnostics).toEqual([
+      { client: 'default', severity: 'error', message: `Duplicate operation name \`launches\` in the (default) GraphQL Client, first declared at ${launches}:1:1.`, file: duplicate, line: 2, column: 1 },
+      { client: 'default', severity: 'error', message: `Duplicate fragment name \`launch\` in the (default) GraphQL Client, first declared at ${launches}:2:1.`, file: duplicate, line: 3, column: 1 }
+    ])
+  })
+
+  it('allows the same operation name across clients', () => {
+    const spacex = writeDocument('spacex', 'query launches { launches { id } }')
+    const rmorty = writeDocument('rmorty', 'query launches { characters { id } }')
+
+    expect(checkDocuments({ spacex: [spacex], rmorty: [rmorty] }, [spacex, rmorty])).toEqual([])
+  })
+
+  it('reports anonymous operations', () => {
+    const anonymous = writeDocument('anonymous', '{ launches { id } }')
+
+    expect(checkDocuments({ default: [anonymous] }, [anonymous])).toEqual([
+      { client: 'default', severity: 'error', message: 'Anonymous operation in a document of the (default) GraphQL Client, operations must be named.', file: anonymous, line: 1, column: 1 }
+    ])
+  })
+
+  it('warns about documents which aren\'t associated with any client', () => {
+    const orphan = writeDocument('orphan.other', 'query orphan { launches { id } }')
+
+    expect(checkDocuments({ default: [] }, [orphan], { [orphan]: '/app/pages/index.vue' })).toEqual([
+      { severity: 'warning', message: 'Document isn\'t associated with any GraphQL Client, as it\'s name or directory doesn\'t match a configured client.', file: '/app/pages/index.vue' }
+    ])
+  })
+
+  it('skips documents with syntax errors', () => {
+    const invalid = writeDocument('invalid', 'query invalid {')
+
+    expect(checkDocuments({ default: [invalid] }, [invalid])).toEqual([])
+  })
+
+  it('reports the source file of extracted documents', () => {
+    const extracted = writeDocument('extracted', '\n\n{ launches { id } }')
+    const [diagnostic] = checkDocuments({ default: [extracted] }, [extracted], { [extracted]: '/app/pages/index.vue' })
+
+    expect(formatDiagnostic(diagnostic)).toBe('/app/pages/index.vue:3:1 Anonymous operation in a document of the (default) GraphQL Client, operations must be named.')
+  })
+})
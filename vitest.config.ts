@@ -0,0 +1,10 @@
+import { defineConfig } from 'vitest/config'
+
+export default defineConfig({
+  test: {
+    deps: {
+      // `graphql` is resolved to it's ESM build within the suites, hence `@graphql-tools` must share that instance
+      inline: [/@graphql-tools/]
+    }
+  }
+})